@@ -0,0 +1,106 @@
+/**
+ * Operator API, behind `Authorization: Bearer <ADMIN_TOKEN>`:
+ *
+ *   GET    /admin/stats                  lease, waiting and generation counts
+ *   GET    /admin/usage?days=N           token and cost totals per day and model
+ *   GET    /admin/leases                 every lease with its expiry
+ *   DELETE /admin/leases/:id             force-release a lease
+ *   GET    /admin/sessions               every leased session's Sandbox state
+ *   GET    /admin/sessions/:id           one session's Sandbox state
+ *   POST   /admin/sessions/:id/destroy   tear down a session and its container
+ */
+import { getSandbox } from "@cloudflare/sandbox";
+import { constantTimeEquals } from "./auth";
+
+const LEASE_RE = /^\/admin\/leases\/([a-z0-9]{8})$/;
+const SESSION_RE = /^\/admin\/sessions\/([a-z0-9]{8})$/;
+const DESTROY_RE = /^\/admin\/sessions\/([a-z0-9]{8})\/destroy$/;
+
+export async function handleAdmin(
+  request: Request,
+  env: Env,
+  url: URL,
+): Promise<Response> {
+  if (!(await isAdmin(request, env))) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const tracker = env.SessionTracker.get(
+    env.SessionTracker.idFromName("global"),
+  );
+  const path = url.pathname;
+
+  if (path === "/admin/stats" && request.method === "GET") {
+    return Response.json(await tracker.getStats());
+  }
+
+  if (path === "/admin/usage" && request.method === "GET") {
+    const days = Number(url.searchParams.get("days") ?? 30);
+    if (!Number.isInteger(days) || days < 1) {
+      return Response.json({ error: "Invalid days" }, { status: 400 });
+    }
+    return Response.json({ days: await tracker.getDailyUsage(days) });
+  }
+
+  if (path === "/admin/leases" && request.method === "GET") {
+    return Response.json({ leases: await tracker.listLeases() });
+  }
+
+  const lease = path.match(LEASE_RE);
+  if (lease && request.method === "DELETE") {
+    await tracker.release(lease[1]);
+    return new Response(null, { status: 204 });
+  }
+
+  if (path === "/admin/sessions" && request.method === "GET") {
+    const leases = await tracker.listLeases();
+    const sessions = await Promise.all(
+      leases.map(async (l) => ({
+        sessionId: l.leaseId,
+        expiresAt: l.expiresAt,
+        ...(await sessionState(env, l.leaseId)),
+      })),
+    );
+    return Response.json({ sessions });
+  }
+
+  const session = path.match(SESSION_RE);
+  if (session && request.method === "GET") {
+    const state = await sessionState(env, session[1]);
+    return Response.json(state, { status: state.state ? 200 : 404 });
+  }
+
+  const destroy = path.match(DESTROY_RE);
+  if (destroy && request.method === "POST") {
+    const result = await sandboxFor(env, destroy[1]).adminDestroy();
+    // Release even if the Sandbox had no state to clean up.
+    await tracker.release(destroy[1]);
+    return Response.json(result);
+  }
+
+  return Response.json({ error: "Not found" }, { status: 404 });
+}
+
+async function isAdmin(request: Request, env: Env): Promise<boolean> {
+  if (!env.ADMIN_TOKEN) return false;
+  const header = request.headers.get("Authorization") ?? "";
+  if (!header.startsWith("Bearer ")) return false;
+
+  return constantTimeEquals(header.slice("Bearer ".length), env.ADMIN_TOKEN);
+}
+
+async function sessionState(
+  env: Env,
+  sessionId: string,
+): Promise<Record<string, unknown>> {
+  try {
+    return await sandboxFor(env, sessionId).getAdminState();
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+function sandboxFor(env: Env, sessionId: string) {
+  // No options: looking at a session shouldn't reconfigure its container.
+  return getSandbox(env.Sandbox, sessionId);
+}
@@ -0,0 +1,355 @@
+import { jsonSchema, tool, type ModelMessage, type ToolSet } from "ai";
+import type { Attachment, PromptAuthor, RuntimeErrorReport } from "./protocol";
+import { matchesGlob, type Template } from "./templates";
+import type { ProjectFs, StagedChanges } from "./workspace";
+
+export const MAX_AGENT_STEPS = 20;
+const MAX_TRANSCRIPT_TURNS = 10;
+
+const IGNORED_DIRS = ["node_modules", ".git", "dist"];
+
+/** One completed prompt → result exchange in a session's conversation. */
+export interface TranscriptEntry {
+  prompt: string;
+  summary: string;
+  /** Paths relative to the project root. */
+  files: string[];
+  version: number;
+  model: string;
+  createdAt: number;
+  author?: PromptAuthor;
+  /** Reference images sent with the prompt. */
+  attachments?: Attachment[];
+}
+
+export interface AgentToolHooks {
+  /** Called before a tool runs, so the client can show what the agent is doing. */
+  onToolCall(name: string, path?: string): void;
+}
+
+/**
+ * Builds the agent's tool set. Reads go to the container; writes are staged
+ * in `staged` and only reach the project once they pass the compile check.
+ */
+export function createAgentTools(
+  fs: ProjectFs,
+  template: Template,
+  staged: StagedChanges,
+  hooks: AgentToolHooks,
+): ToolSet {
+  const projectDir = template.dir;
+  return {
+    list_files: tool({
+      description:
+        "List every source file in the project, relative to the project root.",
+      inputSchema: jsonSchema<Record<string, never>>({
+        type: "object",
+        properties: {},
+        additionalProperties: false,
+      }),
+      execute: async () => {
+        hooks.onToolCall("list_files");
+        const prune = IGNORED_DIRS.map((d) => `-path ./${d} -prune -o`).join(
+          " ",
+        );
+        const result = await fs.exec(`find . ${prune} -type f -print | sort`, {
+          cwd: projectDir,
+        });
+        if (result.exitCode !== 0) {
+          return { error: result.stderr || "find failed" };
+        }
+        const files = new Set(
+          result.stdout
+            .split("\n")
+            .filter(Boolean)
+            .map((f) => f.replace(/^\.\//, "")),
+        );
+        for (const path of staged.paths()) {
+          files.add(path.slice(projectDir.length + 1));
+        }
+        return { files: [...files].sort() };
+      },
+    }),
+
+    read_file: tool({
+      description: "Read a file from the project.",
+      inputSchema: jsonSchema<{ path: string }>({
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "Path relative to the project root, e.g. src/App.tsx",
+          },
+        },
+        required: ["path"],
+        additionalProperties: false,
+      }),
+      execute: async ({ path }) => {
+        hooks.onToolCall("read_file", path);
+        const abs = resolveProjectPath(projectDir, path);
+        return { path, content: await staged.read(abs) };
+      },
+    }),
+
+    write_file: tool({
+      description:
+        "Create or overwrite a file with the given contents. Use this for new components.",
+      inputSchema: jsonSchema<{ path: string; content: string }>({
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "Path relative to the project root",
+          },
+          content: {
+            type: "string",
+            description: "The complete new file contents",
+          },
+        },
+        required: ["path", "content"],
+        additionalProperties: false,
+      }),
+      execute: async ({ path, content }) => {
+        hooks.onToolCall("write_file", path);
+        staged.write(resolveWritablePath(template, path), content);
+        return { path, bytes: content.length };
+      },
+    }),
+
+    patch_file: tool({
+      description:
+        "Replace one exact occurrence of `search` with `replace` in an existing file. `search` must match the file contents exactly, including whitespace, and must be unique.",
+      inputSchema: jsonSchema<{
+        path: string;
+        search: string;
+        replace: string;
+      }>({
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "Path relative to the project root",
+          },
+          search: { type: "string", description: "Exact text to find" },
+          replace: { type: "string", description: "Replacement text" },
+        },
+        required: ["path", "search", "replace"],
+        additionalProperties: false,
+      }),
+      execute: async ({ path, search, replace }) => {
+        hooks.onToolCall("patch_file", path);
+        const abs = resolveWritablePath(template, path);
+        const content = await staged.read(abs);
+
+        const first = content.indexOf(search);
+        if (first === -1) {
+          return { error: `search text not found in ${path}` };
+        }
+        if (content.indexOf(search, first + 1) !== -1) {
+          return {
+            error: `search text occurs more than once in ${path}; include more context`,
+          };
+        }
+
+        staged.write(
+          abs,
+          content.slice(0, first) +
+            replace +
+            content.slice(first + search.length),
+        );
+        return { path, ok: true };
+      },
+    }),
+  };
+}
+
+/**
+ * Resolves a model-supplied path against the project root, rejecting
+ * anything that would escape it.
+ */
+export function resolveProjectPath(projectDir: string, path: string): string {
+  const relative = path.startsWith(`${projectDir}/`)
+    ? path.slice(projectDir.length + 1)
+    : path.replace(/^\/+/, "");
+
+  const segments: string[] = [];
+  for (const segment of relative.split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === "..") {
+      if (segments.length === 0) {
+        throw new Error(`Path escapes the project: ${path}`);
+      }
+      segments.pop();
+      continue;
+    }
+    segments.push(segment);
+  }
+
+  if (segments.length === 0) {
+    throw new Error(`Not a file path: ${path}`);
+  }
+  return `${projectDir}/${segments.join("/")}`;
+}
+
+function resolveWritablePath(template: Template, path: string): string {
+  const abs = resolveProjectPath(template.dir, path);
+  const relative = abs.slice(template.dir.length + 1);
+
+  if (matchesGlob(relative, template.readOnly)) {
+    throw new Error(`${relative} is read-only`);
+  }
+  if (!matchesGlob(relative, template.editable)) {
+    throw new Error(
+      `${relative} is not editable; only ${template.editable.join(", ")} can be written`,
+    );
+  }
+  if (
+    IGNORED_DIRS.some((d) => relative === d || relative.startsWith(`${d}/`))
+  ) {
+    throw new Error(`Cannot write inside ${relative.split("/")[0]}/`);
+  }
+  return abs;
+}
+
+/** An attachment's bytes, ready to hand to the model. */
+export interface ImageInput {
+  bytes: Uint8Array;
+  mediaType: string;
+}
+
+/** The opening user message of a generation, with any reference images. */
+export function buildAgentMessage(
+  template: Template,
+  userPrompt: string,
+  images: ImageInput[] = [],
+): ModelMessage {
+  const text = buildAgentPrompt(template, userPrompt, images.length);
+  if (images.length === 0) return { role: "user", content: text };
+  return {
+    role: "user",
+    content: [
+      { type: "text", text },
+      ...images.map((image) => ({
+        type: "image" as const,
+        image: image.bytes,
+        mediaType: image.mediaType,
+      })),
+    ],
+  };
+}
+
+export function buildAgentPrompt(
+  template: Template,
+  userPrompt: string,
+  imageCount = 0,
+): string {
+  const images =
+    imageCount > 0
+      ? `\n\nThe user attached ${imageCount === 1 ? "a reference image" : `${imageCount} reference images`} below, such as a sketch or a sprite. Use them as a guide for layout, colours and shapes.`
+      : "";
+  const rules = [
+    "Start by listing the files and reading the ones you need before changing anything.",
+    ...(template.readOnly.length > 0
+      ? [
+          `Do NOT modify ${template.readOnly.join(" or ")} — they are read-only references.`,
+        ]
+      : []),
+    ...(template.editable.includes("**")
+      ? []
+      : [
+          `Only files matching ${template.editable.join(", ")} can be written.`,
+        ]),
+    ...template.rules,
+    "Your changes are type-checked when you finish; they are only applied if they compile.",
+    "When you are done, reply with one or two sentences summarising what you changed.",
+  ];
+  return `${template.systemPrompt}
+
+The user wants you to: ${userPrompt}${images}
+
+TOOLS:
+- list_files shows the project tree. read_file reads any file.
+- write_file creates or overwrites a file; use it for new files.
+- patch_file makes a targeted edit to an existing file. Prefer it over write_file for small changes.
+
+RULES:
+${rules.map((rule) => `- ${rule}`).join("\n")}`;
+}
+
+export function buildRepairPrompt(diagnostics: string): string {
+  return `Your changes failed to compile. The type-checker reported:
+
+${diagnostics}
+
+Fix these errors using the same tools, then reply with an updated summary of what you changed.`;
+}
+
+/** The prompt for an automatic fix-up after the preview threw at runtime. */
+export function buildRuntimeFixPrompt(report: RuntimeErrorReport): string {
+  const trace = report.stack ? `\n\n${report.stack}` : "";
+  return `Fix the error the app now throws in the browser. It compiles, but at runtime it reported:
+
+${report.message}${trace}
+
+Find the cause in the code you changed and fix it without undoing the rest of the change.`;
+}
+
+/**
+ * Asks a vision model whether a screenshot of the preview shows what the
+ * user asked for. Its reply is read with parseVisualCheck.
+ */
+export function buildVisualCheckMessages(
+  userPrompt: string,
+  summary: string,
+  screenshot: Uint8Array,
+): ModelMessage[] {
+  return [
+    {
+      role: "user",
+      content: [
+        {
+          type: "text",
+          text: `This is a screenshot of a web app after an agent changed it. The user asked for: ${userPrompt}
+
+The agent says it did this: ${summary}
+
+Does the screenshot show what the user asked for? Start your reply with PASS or FAIL, then explain in one or two sentences.`,
+        },
+        { type: "image", image: screenshot, mediaType: "image/png" },
+      ],
+    },
+  ];
+}
+
+export function parseVisualCheck(text: string): { ok: boolean; notes: string } {
+  const reply = text.trim();
+  const verdict = reply.match(/^\**(PASS|FAIL)\b\**[\s:.-]*/i);
+  return {
+    ok: verdict?.[1].toUpperCase() === "PASS",
+    notes: verdict ? reply.slice(verdict[0].length) : reply,
+  };
+}
+
+/**
+ * Replays recent turns as chat history so follow-ups like "now make it
+ * bigger" resolve against what the agent did before.
+ */
+export function buildTranscriptMessages(
+  transcript: TranscriptEntry[],
+): ModelMessage[] {
+  return transcript.slice(-MAX_TRANSCRIPT_TURNS).flatMap((entry) => [
+    {
+      role: "user" as const,
+      content: entry.attachments?.length
+        ? `${entry.prompt}\n\n(${entry.attachments.length} reference image(s) attached)`
+        : entry.prompt,
+    },
+    {
+      role: "assistant" as const,
+      content:
+        entry.files.length > 0
+          ? `${entry.summary}\n\nFiles changed: ${entry.files.join(", ")}`
+          : entry.summary,
+    },
+  ]);
+}
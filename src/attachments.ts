@@ -0,0 +1,108 @@
+/**
+ * Images uploaded to go with a prompt: a sketch of a layout, a reference
+ * sprite. They are stored in R2 under the session, content-addressed so
+ * uploading the same image twice yields the same id:
+ *
+ *   sessions/<id>/attachments/<sha256>     image bytes, typed by httpMetadata
+ */
+import type { Attachment, AttachmentType } from "./protocol";
+import { sha256Hex } from "./session-storage";
+
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_PROMPT = 4;
+
+const ATTACHMENT_ID_RE = /^[0-9a-f]{64}$/;
+
+// Leading bytes of each accepted format; a declared type must match them.
+const SIGNATURES: Record<AttachmentType, (bytes: Uint8Array) => boolean> = {
+  "image/png": (b) => startsWith(b, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a]),
+  "image/jpeg": (b) => startsWith(b, [0xff, 0xd8, 0xff]),
+  "image/gif": (b) => startsWith(b, [0x47, 0x49, 0x46, 0x38]),
+  "image/webp": (b) =>
+    startsWith(b, [0x52, 0x49, 0x46, 0x46]) &&
+    startsWith(b.subarray(8), [0x57, 0x45, 0x42, 0x50]),
+};
+
+function attachmentKey(sessionId: string, id: string): string {
+  return `sessions/${sessionId}/attachments/${id}`;
+}
+
+function isAttachmentId(id: string): boolean {
+  return ATTACHMENT_ID_RE.test(id);
+}
+
+/** Why an upload can't be accepted, or null if it can. */
+export function validateAttachment(
+  bytes: Uint8Array,
+  mediaType: string | undefined,
+): string | null {
+  if (bytes.byteLength === 0) return "The upload is empty";
+  if (bytes.byteLength > MAX_ATTACHMENT_BYTES) {
+    return `Images can be at most ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MiB`;
+  }
+  if (!mediaType || !Object.hasOwn(SIGNATURES, mediaType)) {
+    return `Content-Type must be one of ${Object.keys(SIGNATURES).join(", ")}`;
+  }
+  if (!SIGNATURES[mediaType as AttachmentType](bytes)) {
+    return `The upload is not a valid ${mediaType} image`;
+  }
+  return null;
+}
+
+/** Stores an image that has passed validateAttachment. */
+export async function saveAttachment(
+  bucket: R2Bucket,
+  sessionId: string,
+  bytes: Uint8Array,
+  mediaType: AttachmentType,
+): Promise<Attachment> {
+  const id = await sha256Hex(bytes);
+  await bucket.put(attachmentKey(sessionId, id), bytes, {
+    sha256: id,
+    httpMetadata: { contentType: mediaType },
+  });
+  return { id, mediaType, size: bytes.byteLength };
+}
+
+/** Looks up uploaded attachments by id; null if any of them is missing. */
+export async function findAttachments(
+  bucket: R2Bucket,
+  sessionId: string,
+  ids: string[],
+): Promise<Attachment[] | null> {
+  const attachments: Attachment[] = [];
+  for (const id of ids) {
+    const head = isAttachmentId(id)
+      ? await bucket.head(attachmentKey(sessionId, id))
+      : null;
+    if (!head) return null;
+    attachments.push({
+      id,
+      mediaType: head.httpMetadata?.contentType as AttachmentType,
+      size: head.size,
+    });
+  }
+  return attachments;
+}
+
+export async function getAttachment(
+  bucket: R2Bucket,
+  sessionId: string,
+  id: string,
+): Promise<R2ObjectBody | null> {
+  return isAttachmentId(id) ? bucket.get(attachmentKey(sessionId, id)) : null;
+}
+
+export async function loadAttachment(
+  bucket: R2Bucket,
+  sessionId: string,
+  attachment: Attachment,
+): Promise<Uint8Array> {
+  const obj = await getAttachment(bucket, sessionId, attachment.id);
+  if (!obj) throw new Error(`Missing attachment ${attachment.id}`);
+  return new Uint8Array(await obj.arrayBuffer());
+}
+
+function startsWith(bytes: Uint8Array, prefix: number[]): boolean {
+  return prefix.every((byte, i) => bytes[i] === byte);
+}
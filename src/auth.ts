@@ -0,0 +1,76 @@
+/**
+ * Session owner tokens: an HMAC-SHA256 of the session id under
+ * SESSION_SECRET. The server hands one out when it creates a session and
+ * checks it on reconnect, without storing anything. Other secrets the
+ * worker checks (the admin token, API keys) go through constantTimeEquals.
+ */
+
+const encoder = new TextEncoder();
+
+export async function signSessionToken(
+  secret: string,
+  sessionId: string,
+): Promise<string> {
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await hmacKey(secret),
+    encoder.encode(`session:${sessionId}`),
+  );
+  return toBase64Url(new Uint8Array(signature));
+}
+
+export async function verifySessionToken(
+  secret: string,
+  sessionId: string,
+  token: string,
+): Promise<boolean> {
+  let signature: Uint8Array<ArrayBuffer>;
+  try {
+    signature = fromBase64Url(token);
+  } catch {
+    return false;
+  }
+  // subtle.verify compares in constant time.
+  return crypto.subtle.verify(
+    "HMAC",
+    await hmacKey(secret),
+    signature,
+    encoder.encode(`session:${sessionId}`),
+  );
+}
+
+/** Compares secrets without leaking, through timing, how much matched. */
+export async function constantTimeEquals(
+  a: string,
+  b: string,
+): Promise<boolean> {
+  // Hash both sides so the constant-time compare sees equal lengths.
+  const [x, y] = await Promise.all(
+    [a, b].map((value) =>
+      crypto.subtle.digest("SHA-256", encoder.encode(value)),
+    ),
+  );
+  return crypto.subtle.timingSafeEqual(x, y);
+}
+
+async function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
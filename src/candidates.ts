@@ -0,0 +1,78 @@
+/**
+ * Variants generated for one prompt, kept in R2 so the user can compare them
+ * and so the ones they reject stay on record after they choose:
+ *
+ *   sessions/<id>/candidates/<set id>.json   CandidateSet
+ *
+ * A set's id is random rather than its epoch: epochs count from zero again
+ * whenever a session is recreated, and an earlier set must not be replaced.
+ *
+ * Every candidate was generated against the same starting point, `base`:
+ * the contents, before any candidate was applied, of every file any of them
+ * touches (null where the file didn't exist).
+ */
+import type { CandidateInfo } from "./protocol";
+
+export const MAX_VARIANTS = 4;
+
+export interface StoredCandidate extends CandidateInfo {
+  /** Path relative to the project root → contents. */
+  contents: Record<string, string>;
+}
+
+export interface CandidateSet {
+  id: string;
+  epoch: number;
+  prompt: string;
+  model: string;
+  base: Record<string, string | null>;
+  candidates: StoredCandidate[];
+}
+
+function candidatesKey(sessionId: string, setId: string): string {
+  return `sessions/${sessionId}/candidates/${setId}.json`;
+}
+
+export async function saveCandidates(
+  bucket: R2Bucket,
+  sessionId: string,
+  set: CandidateSet,
+): Promise<void> {
+  await bucket.put(candidatesKey(sessionId, set.id), JSON.stringify(set), {
+    httpMetadata: { contentType: "application/json" },
+  });
+}
+
+export async function loadCandidates(
+  bucket: R2Bucket,
+  sessionId: string,
+  setId: string,
+): Promise<CandidateSet | null> {
+  const obj = await bucket.get(candidatesKey(sessionId, setId));
+  return obj ? ((await obj.json()) as CandidateSet) : null;
+}
+
+/**
+ * The writes that make the live project show candidate `index`, or put it
+ * back to `base` when `index` is null. Paths are absolute.
+ */
+export function candidateOverlay(
+  set: CandidateSet,
+  index: number | null,
+  projectDir: string,
+): Map<string, string | null> {
+  const chosen = index === null ? undefined : set.candidates[index];
+  const overlay = new Map<string, string | null>();
+  for (const [path, original] of Object.entries(set.base)) {
+    overlay.set(`${projectDir}/${path}`, chosen?.contents[path] ?? original);
+  }
+  return overlay;
+}
+
+/** What clients are told about a candidate; the contents stay in R2. */
+export function candidateInfo({
+  contents: _,
+  ...info
+}: StoredCandidate): CandidateInfo {
+  return info;
+}
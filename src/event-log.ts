@@ -0,0 +1,126 @@
+const MAX_EVENTS_PER_EPOCH = 2_000;
+// Dev server output is capped on its own, across epochs, so a noisy server
+// can't push a generation's progress out of the log.
+const MAX_LOG_EVENTS = 500;
+const RETAINED_EPOCHS = 2;
+
+export interface LoggedEvent {
+  seq: number;
+  type: string;
+  payload: string;
+}
+
+/**
+ * Every broadcast a session makes, numbered in order and kept in the Durable
+ * Object's SQLite so a reconnecting client can replay what it missed.
+ *
+ * Only the last RETAINED_EPOCHS epochs are kept, each capped at
+ * MAX_EVENTS_PER_EPOCH (oldest dropped first); `log` events are capped
+ * separately at MAX_LOG_EVENTS. AUTOINCREMENT guarantees a sequence number
+ * is never reused, even after pruning.
+ */
+export class EventLog {
+  constructor(private readonly sql: SqlStorage) {
+    sql.exec(`
+			CREATE TABLE IF NOT EXISTS events (
+				seq INTEGER PRIMARY KEY AUTOINCREMENT,
+				epoch INTEGER NOT NULL,
+				type TEXT NOT NULL,
+				payload TEXT NOT NULL
+			)
+		`);
+  }
+
+  /**
+   * Appends an event and returns its sequence number. Events that don't
+   * carry an epoch are filed under the most recent one.
+   */
+  append(type: string, payload: string, epoch?: number): number {
+    epoch ??= this.latestEpoch();
+
+    const { seq } = this.sql
+      .exec<{
+        seq: number;
+      }>(
+        "INSERT INTO events (epoch, type, payload) VALUES (?, ?, ?) RETURNING seq",
+        epoch,
+        type,
+        payload,
+      )
+      .one();
+
+    this.sql.exec(
+      "DELETE FROM events WHERE epoch <= ?",
+      epoch - RETAINED_EPOCHS,
+    );
+    if (type === "log") {
+      this.sql.exec(
+        `DELETE FROM events WHERE type = 'log' AND seq <= (
+          SELECT seq FROM events WHERE type = 'log'
+          ORDER BY seq DESC LIMIT 1 OFFSET ?
+        )`,
+        MAX_LOG_EVENTS,
+      );
+    } else {
+      this.sql.exec(
+        `DELETE FROM events WHERE epoch = ? AND type != 'log' AND seq <= (
+          SELECT seq FROM events WHERE epoch = ? AND type != 'log'
+          ORDER BY seq DESC LIMIT 1 OFFSET ?
+        )`,
+        epoch,
+        epoch,
+        MAX_EVENTS_PER_EPOCH,
+      );
+    }
+
+    return seq;
+  }
+
+  latestSeq(): number {
+    const rows = this.sql
+      .exec<{
+        seq: number;
+      }>("SELECT seq FROM sqlite_sequence WHERE name = 'events'")
+      .toArray();
+    return rows[0]?.seq ?? 0;
+  }
+
+  /**
+   * Events after `seq`, in order — or null if any of them have been pruned
+   * (or `seq` is from a log this one doesn't continue), in which case the
+   * caller has to resync the client from current state instead.
+   */
+  after(seq: number): LoggedEvent[] | null {
+    if (seq > this.latestSeq()) return null;
+
+    const events = this.sql
+      .exec<{
+        seq: number;
+        type: string;
+        payload: string;
+      }>(
+        "SELECT seq, type, payload FROM events WHERE seq > ? ORDER BY seq",
+        seq,
+      )
+      .toArray();
+
+    const contiguous = events.every((event, i) => event.seq === seq + 1 + i);
+    const complete = seq + events.length === this.latestSeq();
+    return contiguous && complete ? events : null;
+  }
+
+  private latestEpoch(): number {
+    return (
+      this.sql
+        .exec<{
+          epoch: number | null;
+        }>("SELECT MAX(epoch) as epoch FROM events")
+        .one().epoch ?? 0
+    );
+  }
+}
+
+/** Adds `seq` to a serialised server message without re-parsing it. */
+export function withSeq(payload: string, seq: number): string {
+  return `{"seq":${seq},${payload.slice(1)}`;
+}
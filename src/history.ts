@@ -0,0 +1,160 @@
+/**
+ * Per-session version history in R2. Every successful generation becomes a
+ * numbered version holding a snapshot of every file that differs from the
+ * pristine template; version 0 is the template itself and is never stored.
+ *
+ *   sessions/<id>/versions/index.json     VersionMeta[]
+ *   sessions/<id>/versions/<n>/<path>     file contents, path relative to the project
+ *   sessions/<id>/diffs/<n>.<against>.diff unified diff against the template or version n's parent
+ *   sessions/<id>/screenshots/<n>.<size>.png the preview as version n left it
+ */
+
+import type { Attachment, CandidateInfo } from "./protocol";
+
+export type DiffBase = "baseline" | "previous";
+
+export type ScreenshotSize = "full" | "thumbnail";
+
+export interface VersionMeta {
+  version: number;
+  parent: number;
+  prompt: string;
+  model: string;
+  createdAt: number;
+  files: string[];
+  /** Worker-relative; absent if the preview couldn't be captured. */
+  thumbnailUrl?: string;
+  attachments?: Attachment[];
+  /**
+   * Set when the prompt asked for variants: all of them, which won, and the
+   * id of their set in R2.
+   */
+  candidates?: { id: string; chosen: number; items: CandidateInfo[] };
+}
+
+function indexKey(sessionId: string): string {
+  return `sessions/${sessionId}/versions/index.json`;
+}
+
+function diffKey(sessionId: string, version: number, against: DiffBase) {
+  return `sessions/${sessionId}/diffs/${version}.${against}.diff`;
+}
+
+function screenshotKey(
+  sessionId: string,
+  version: number,
+  size: ScreenshotSize,
+): string {
+  return `sessions/${sessionId}/screenshots/${version}.${size}.png`;
+}
+
+/** Where the worker serves a version's screenshot. */
+export function screenshotUrl(
+  sessionId: string,
+  version: number,
+  size: ScreenshotSize,
+): string {
+  return `/sessions/${sessionId}/screenshots/${version}?size=${size}`;
+}
+
+function fileKey(sessionId: string, version: number, path: string): string {
+  return `sessions/${sessionId}/versions/${version}/${path}`;
+}
+
+export async function loadHistory(
+  bucket: R2Bucket,
+  sessionId: string,
+): Promise<VersionMeta[]> {
+  const index = await bucket.get(indexKey(sessionId));
+  if (!index) return [];
+  return (await index.json()) as VersionMeta[];
+}
+
+export async function recordVersion(
+  bucket: R2Bucket,
+  sessionId: string,
+  entry: Omit<VersionMeta, "version" | "createdAt" | "files" | "thumbnailUrl">,
+  files: Map<string, string>,
+  screenshots?: Record<ScreenshotSize, Uint8Array>,
+): Promise<VersionMeta> {
+  const history = await loadHistory(bucket, sessionId);
+  const version = (history.at(-1)?.version ?? 0) + 1;
+  const meta: VersionMeta = {
+    ...entry,
+    version,
+    createdAt: Date.now(),
+    files: [...files.keys()],
+    ...(screenshots && {
+      thumbnailUrl: screenshotUrl(sessionId, version, "thumbnail"),
+    }),
+  };
+
+  // Snapshot first, so the index never lists a version with missing files.
+  for (const [path, content] of files) {
+    await bucket.put(fileKey(sessionId, version, path), content);
+  }
+  if (screenshots) {
+    for (const size of ["full", "thumbnail"] as const) {
+      await bucket.put(
+        screenshotKey(sessionId, version, size),
+        screenshots[size],
+        { httpMetadata: { contentType: "image/png" } },
+      );
+    }
+  }
+  history.push(meta);
+  await bucket.put(indexKey(sessionId), JSON.stringify(history));
+
+  return meta;
+}
+
+export async function loadVersionFiles(
+  bucket: R2Bucket,
+  sessionId: string,
+  meta: VersionMeta,
+): Promise<Map<string, string>> {
+  const files = new Map<string, string>();
+  for (const path of meta.files) {
+    const obj = await bucket.get(fileKey(sessionId, meta.version, path));
+    if (!obj) {
+      throw new Error(
+        `Missing snapshot of ${path} for version ${meta.version}`,
+      );
+    }
+    files.set(path, await obj.text());
+  }
+  return files;
+}
+
+export async function saveDiffs(
+  bucket: R2Bucket,
+  sessionId: string,
+  version: number,
+  diffs: Record<DiffBase, string>,
+): Promise<void> {
+  for (const against of ["baseline", "previous"] as const) {
+    await bucket.put(diffKey(sessionId, version, against), diffs[against], {
+      httpMetadata: { contentType: "text/x-diff" },
+    });
+  }
+}
+
+export async function loadDiff(
+  bucket: R2Bucket,
+  sessionId: string,
+  version: number,
+  against: DiffBase,
+): Promise<string | null> {
+  if (version === 0) return "";
+  const obj = await bucket.get(diffKey(sessionId, version, against));
+  return obj ? obj.text() : null;
+}
+
+export async function loadScreenshot(
+  bucket: R2Bucket,
+  sessionId: string,
+  version: number,
+  size: ScreenshotSize,
+): Promise<R2ObjectBody | null> {
+  return bucket.get(screenshotKey(sessionId, version, size));
+}
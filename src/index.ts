@@ -1,16 +1,50 @@
 import { getSandbox, proxyToSandbox } from "@cloudflare/sandbox";
 import { customAlphabet } from "nanoid";
+import { handleAdmin } from "./admin";
+import {
+  getAttachment,
+  MAX_ATTACHMENT_BYTES,
+  saveAttachment,
+  validateAttachment,
+} from "./attachments";
+import {
+  constantTimeEquals,
+  signSessionToken,
+  verifySessionToken,
+} from "./auth";
+import { loadDiff, loadScreenshot } from "./history";
+import {
+  MESSAGE_SINCE,
+  type AttachmentType,
+  type ServerMessage,
+} from "./protocol";
+import { manifestKey, sha256Hex } from "./session-storage";
+import { isTemplateId, listTemplates } from "./templates";
 
 export { Sandbox } from "./sandbox";
 export { SessionTracker } from "./session-tracker";
+export type {
+  ClientMessage,
+  ServerMessage,
+  ServerMessageType,
+} from "./protocol";
 
 const generateId = customAlphabet("abcdefghijklmnopqrstuvwxyz0123456789", 8);
 const SESSION_ID_RE = /^[a-z0-9]{8}$/;
+const SESSION_DIFF_RE = /^\/sessions\/([a-z0-9]{8})\/diff$/;
+const SESSION_USAGE_RE = /^\/sessions\/([a-z0-9]{8})\/usage$/;
+const SESSION_TIMELINE_RE = /^\/sessions\/([a-z0-9]{8})\/timeline$/;
+const SESSION_ATTACHMENTS_RE = /^\/sessions\/([a-z0-9]{8})\/attachments$/;
+const SESSION_ATTACHMENT_RE =
+  /^\/sessions\/([a-z0-9]{8})\/attachments\/([0-9a-f]{64})$/;
+const SESSION_SCREENSHOT_RE = /^\/sessions\/([a-z0-9]{8})\/screenshots\/(\d+)$/;
+// Tokens can't be signed or checked without it; say so rather than throw.
+const MISSING_SECRET = "SESSION_SECRET is not configured";
 
 const CORS_HEADERS: Record<string, string> = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type",
+  "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, X-API-Key, Authorization",
 };
 
 function withCors(response: Response): Response {
@@ -51,13 +85,29 @@ export default {
       return handleSessionWs(request, env, url);
     }
 
+    if (url.pathname === "/demo" && request.method === "POST") {
+      return withCors(await handleDemo(request, env, url));
+    }
+
+    if (url.pathname === "/templates") {
+      return withCors(
+        Response.json(
+          listTemplates().map(({ id, name }) => ({ id, name })),
+          { headers: { "Cache-Control": "max-age=300" } },
+        ),
+      );
+    }
+
     if (url.pathname === "/status") {
       const tracker = env.SessionTracker.get(
         env.SessionTracker.idFromName("global"),
       );
-      const active = await tracker.getActive();
+      const [active, waiting] = await Promise.all([
+        tracker.getActive(),
+        tracker.getWaiting(),
+      ]);
       return withCors(
-        new Response(JSON.stringify({ active }), {
+        new Response(JSON.stringify({ active, waiting }), {
           headers: {
             "Content-Type": "application/json",
             "Cache-Control": "max-age=1",
@@ -66,10 +116,99 @@ export default {
       );
     }
 
+    if (url.pathname === "/admin" || url.pathname.startsWith("/admin/")) {
+      return withCors(await handleAdmin(request, env, url));
+    }
+
+    const diffMatch = url.pathname.match(SESSION_DIFF_RE);
+    if (diffMatch && request.method === "GET") {
+      return withCors(await handleSessionDiff(env, diffMatch[1], url));
+    }
+
+    const usageMatch = url.pathname.match(SESSION_USAGE_RE);
+    if (usageMatch && request.method === "GET") {
+      const tracker = env.SessionTracker.get(
+        env.SessionTracker.idFromName("global"),
+      );
+      return withCors(
+        Response.json(await tracker.getSessionUsage(usageMatch[1])),
+      );
+    }
+
+    const timelineMatch = url.pathname.match(SESSION_TIMELINE_RE);
+    if (timelineMatch && request.method === "GET") {
+      // No options: reading the timeline shouldn't keep a container alive.
+      const sandbox = getSandbox(env.Sandbox, timelineMatch[1]);
+      return withCors(
+        await sandbox.fetch(new Request("http://sandbox/timeline")),
+      );
+    }
+
+    const uploadMatch = url.pathname.match(SESSION_ATTACHMENTS_RE);
+    if (uploadMatch && request.method === "POST") {
+      return withCors(
+        await handleAttachmentUpload(request, env, uploadMatch[1], url),
+      );
+    }
+
+    const attachmentMatch = url.pathname.match(SESSION_ATTACHMENT_RE);
+    if (attachmentMatch && request.method === "GET") {
+      const [, sessionId, id] = attachmentMatch;
+      const image = await getAttachment(env.DIFFS, sessionId, id);
+      if (!image) {
+        return withCors(new Response("Attachment not found", { status: 404 }));
+      }
+      return withCors(
+        new Response(image.body, {
+          headers: {
+            "Content-Type":
+              image.httpMetadata?.contentType ?? "application/octet-stream",
+            "Cache-Control": "public, max-age=31536000, immutable",
+          },
+        }),
+      );
+    }
+
+    const screenshotMatch = url.pathname.match(SESSION_SCREENSHOT_RE);
+    if (screenshotMatch && request.method === "GET") {
+      return withCors(
+        await handleSessionScreenshot(
+          env,
+          screenshotMatch[1],
+          Number(screenshotMatch[2]),
+          url,
+        ),
+      );
+    }
+
     return withCors(new Response("Goose Pond Editor API"));
   },
 };
 
+/**
+ * Who quotas are charged to: the API key if the request carries one listed
+ * in API_KEYS (hashed, so keys are never stored), otherwise the client's IP.
+ * An unlisted key is ignored; honouring it would let a client mint a fresh
+ * set of limits per request.
+ */
+async function clientKey(request: Request, env: Env): Promise<string> {
+  const apiKey = request.headers.get("X-API-Key");
+  if (apiKey && (await isIssuedApiKey(env, apiKey))) {
+    return `key:${await sha256Hex(new TextEncoder().encode(apiKey))}`;
+  }
+  return `ip:${request.headers.get("CF-Connecting-IP") ?? "unknown"}`;
+}
+
+async function isIssuedApiKey(env: Env, apiKey: string): Promise<boolean> {
+  let issued = false;
+  for (const key of (env.API_KEYS ?? "").split(",")) {
+    if (!key.trim()) continue;
+    // Every key is compared, so timing doesn't reveal which one matched.
+    if (await constantTimeEquals(apiKey, key.trim())) issued = true;
+  }
+  return issued;
+}
+
 async function handleSessionWs(
   request: Request,
   env: Env,
@@ -79,28 +218,123 @@ async function handleSessionWs(
     env.SessionTracker.idFromName("global"),
   );
 
+  if (!env.SESSION_SECRET) {
+    const [client, server] = Object.values(new WebSocketPair());
+    server.accept();
+    server.send(
+      JSON.stringify({
+        type: "error",
+        message: MISSING_SECRET,
+        code: "misconfigured",
+      } satisfies ServerMessage),
+    );
+    server.close(1011, "Server misconfigured");
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
   const existingSessionId = url.searchParams.get("session");
 
   if (existingSessionId && !SESSION_ID_RE.test(existingSessionId)) {
     const [client, server] = Object.values(new WebSocketPair());
     server.accept();
     server.send(
-      JSON.stringify({ type: "error", message: "Invalid session ID format" }),
+      JSON.stringify({
+        type: "error",
+        message: "Invalid session ID format",
+      } satisfies ServerMessage),
     );
     server.close(1008, "Invalid session ID");
     return new Response(null, { status: 101, webSocket: client });
   }
 
+  // Only used when the session is created; a restore follows its manifest.
+  const template = url.searchParams.get("template");
+  if (template !== null && !isTemplateId(template)) {
+    const [client, server] = Object.values(new WebSocketPair());
+    server.accept();
+    server.send(
+      JSON.stringify({
+        type: "error",
+        message: `Unknown template: ${template}`,
+      } satisfies ServerMessage),
+    );
+    server.close(1008, "Unknown template");
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
   const sessionId = existingSessionId || generateId();
 
-  const lease = await tracker.acquire(sessionId);
+  // Changing a session takes its owner token. A new session is issued one;
+  // without one, an existing session can only be watched.
+  let token: string | null = null;
+  const presented = url.searchParams.get("token");
+  if (!existingSessionId) {
+    token = await signSessionToken(env.SESSION_SECRET, sessionId);
+  } else if (presented !== null) {
+    if (!(await verifySessionToken(env.SESSION_SECRET, sessionId, presented))) {
+      const [client, server] = Object.values(new WebSocketPair());
+      server.accept();
+      server.send(
+        JSON.stringify({
+          type: "error",
+          message: "Invalid session token",
+          code: "invalid_token",
+        } satisfies ServerMessage),
+      );
+      server.close(4401, "Invalid token");
+      return new Response(null, { status: 101, webSocket: client });
+    }
+    token = presented;
+  }
+
+  const identity = await clientKey(request, env);
+
+  // `hello` comes too late to negotiate the replies below, so clients that
+  // speak the newer ones say so with ?protocol=.
+  const protocol = Number(url.searchParams.get("protocol"));
+
+  const lease = await tracker.acquire(sessionId, identity);
   if (!lease) {
-    // Browser WS API doesn't expose HTTP status codes on upgrade failure.
+    // Any client that can't wait in line gets the original `full`.
+    if (!(protocol >= MESSAGE_SINCE.queued)) {
+      const [client, server] = Object.values(new WebSocketPair());
+      server.accept();
+      server.send(
+        JSON.stringify({
+          type: "full",
+          active: await tracker.getActive(),
+        } satisfies ServerMessage),
+      );
+      server.close(4429, "At capacity");
+      return new Response(null, { status: 101, webSocket: client });
+    }
+
+    // At capacity: the tracker holds the socket in its waiting room and
+    // sends `admitted` once a slot is reserved for this session.
+    const waitUrl = new URL(request.url);
+    waitUrl.searchParams.set("sessionId", sessionId);
+    waitUrl.searchParams.set("clientKey", identity);
+    // Only a new session's token needs delivering; `admitted` carries it.
+    if (existingSessionId || !token) waitUrl.searchParams.delete("token");
+    else waitUrl.searchParams.set("token", token);
+    return tracker.fetch(new Request(waitUrl, request));
+  }
+  if ("quota" in lease) {
+    const { quota } = lease;
     const [client, server] = Object.values(new WebSocketPair());
     server.accept();
-    const active = await tracker.getActive();
-    server.send(JSON.stringify({ type: "full", active }));
-    server.close(4429, "At capacity");
+    server.send(
+      JSON.stringify(
+        protocol >= MESSAGE_SINCE.quota_exceeded
+          ? ({ type: "quota_exceeded", ...quota } satisfies ServerMessage)
+          : ({
+              type: "error",
+              message: `Quota exceeded: ${quota.used} of ${quota.limit} ${quota.quota} used, resets at ${new Date(quota.resetAt).toISOString()}`,
+              code: "quota_exceeded",
+            } satisfies ServerMessage),
+      ),
+    );
+    server.close(4429, "Quota exceeded");
     return new Response(null, { status: 101, webSocket: client });
   }
 
@@ -113,6 +347,9 @@ async function handleSessionWs(
     const wsUrl = new URL(request.url);
     wsUrl.searchParams.set("sessionId", sessionId);
     wsUrl.searchParams.set("leaseId", lease.leaseId);
+    wsUrl.searchParams.set("clientKey", identity);
+    if (token) wsUrl.searchParams.set("token", token);
+    else wsUrl.searchParams.delete("token");
     wsUrl.searchParams.set("hostname", request.headers.get("Host") ?? url.host);
 
     return await sandbox.fetch(new Request(wsUrl, request));
@@ -125,9 +362,212 @@ async function handleSessionWs(
       JSON.stringify({
         type: "error",
         message: `Failed to connect: ${err instanceof Error ? err.message : String(err)}`,
-      }),
+      } satisfies ServerMessage),
     );
     server.close(1011, "Internal error");
     return new Response(null, { status: 101, webSocket: client });
   }
 }
+
+async function handleDemo(
+  request: Request,
+  env: Env,
+  url: URL,
+): Promise<Response> {
+  if (!env.SESSION_SECRET) {
+    return Response.json({ error: MISSING_SECRET }, { status: 500 });
+  }
+
+  let body: { prompt?: unknown; model?: unknown; template?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  if (typeof body.prompt !== "string" || !body.prompt) {
+    return Response.json({ error: "prompt is required" }, { status: 400 });
+  }
+  if (body.model !== undefined && typeof body.model !== "string") {
+    return Response.json({ error: "model must be a string" }, { status: 400 });
+  }
+  if (
+    body.template !== undefined &&
+    (typeof body.template !== "string" || !isTemplateId(body.template))
+  ) {
+    return Response.json(
+      { error: `Unknown template: ${String(body.template)}` },
+      { status: 400 },
+    );
+  }
+
+  const tracker = env.SessionTracker.get(
+    env.SessionTracker.idFromName("global"),
+  );
+  const sessionId = generateId();
+  const identity = await clientKey(request, env);
+
+  const lease = await tracker.acquire(sessionId, identity);
+  if (!lease) {
+    const active = await tracker.getActive();
+    return Response.json({ error: "At capacity", active }, { status: 429 });
+  }
+  if ("quota" in lease) {
+    return Response.json(
+      { error: "Quota exceeded", ...lease.quota },
+      { status: 429 },
+    );
+  }
+
+  try {
+    const sandbox = getSandbox(env.Sandbox, sessionId, {
+      keepAlive: true,
+      sleepAfter: "20m",
+    });
+
+    const demoUrl = new URL(request.url);
+    demoUrl.searchParams.set("sessionId", sessionId);
+    demoUrl.searchParams.set("leaseId", lease.leaseId);
+    demoUrl.searchParams.set("clientKey", identity);
+    demoUrl.searchParams.set(
+      "token",
+      await signSessionToken(env.SESSION_SECRET, sessionId),
+    );
+    demoUrl.searchParams.set(
+      "hostname",
+      request.headers.get("Host") ?? url.host,
+    );
+    if (typeof body.template === "string") {
+      demoUrl.searchParams.set("template", body.template);
+    } else {
+      demoUrl.searchParams.delete("template");
+    }
+
+    const response = await sandbox.fetch(
+      new Request(demoUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ prompt: body.prompt, model: body.model }),
+      }),
+    );
+    if (!response.ok) await tracker.release(sessionId);
+    return response;
+  } catch (err) {
+    console.error("handleDemo error:", err);
+    await tracker.release(sessionId);
+    return Response.json(
+      {
+        error: `Failed to start: ${err instanceof Error ? err.message : String(err)}`,
+      },
+      { status: 500 },
+    );
+  }
+}
+
+async function handleSessionDiff(
+  env: Env,
+  sessionId: string,
+  url: URL,
+): Promise<Response> {
+  const against = url.searchParams.get("against") ?? "baseline";
+  if (against !== "baseline" && against !== "previous") {
+    return new Response('against must be "baseline" or "previous"', {
+      status: 400,
+    });
+  }
+
+  let version: number;
+  const versionParam = url.searchParams.get("version");
+  if (versionParam !== null) {
+    version = Number(versionParam);
+    if (!Number.isInteger(version) || version < 0) {
+      return new Response("Invalid version", { status: 400 });
+    }
+  } else {
+    const manifest = await env.DIFFS.get(manifestKey(sessionId));
+    if (!manifest) return new Response("Session not found", { status: 404 });
+    version = ((await manifest.json()) as { version?: number }).version ?? 0;
+  }
+
+  const patch = await loadDiff(env.DIFFS, sessionId, version, against);
+  if (patch === null) return new Response("Diff not found", { status: 404 });
+
+  return new Response(patch, {
+    headers: {
+      "Content-Type": "text/x-diff; charset=utf-8",
+      "Content-Disposition": `inline; filename="${sessionId}-v${version}.diff"`,
+    },
+  });
+}
+
+async function handleSessionScreenshot(
+  env: Env,
+  sessionId: string,
+  version: number,
+  url: URL,
+): Promise<Response> {
+  const size = url.searchParams.get("size") ?? "full";
+  if (size !== "full" && size !== "thumbnail") {
+    return new Response('size must be "full" or "thumbnail"', {
+      status: 400,
+    });
+  }
+
+  const png = await loadScreenshot(env.DIFFS, sessionId, version, size);
+  if (!png) return new Response("Screenshot not found", { status: 404 });
+
+  return new Response(png.body, {
+    headers: {
+      "Content-Type": "image/png",
+      // A version's screenshot never changes once it is stored.
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
+
+/**
+ * Stores an image to attach to a later `start`. Only the session's owner
+ * token may upload; the body is the raw image, typed by Content-Type.
+ */
+async function handleAttachmentUpload(
+  request: Request,
+  env: Env,
+  sessionId: string,
+  url: URL,
+): Promise<Response> {
+  if (!env.SESSION_SECRET) {
+    return Response.json({ error: MISSING_SECRET }, { status: 500 });
+  }
+  const token = url.searchParams.get("token");
+  if (
+    !token ||
+    !(await verifySessionToken(env.SESSION_SECRET, sessionId, token))
+  ) {
+    return Response.json(
+      { error: "A valid session token is required", code: "invalid_token" },
+      { status: 401 },
+    );
+  }
+
+  if (Number(request.headers.get("Content-Length")) > MAX_ATTACHMENT_BYTES) {
+    return Response.json({ error: "Image too large" }, { status: 413 });
+  }
+  const bytes = new Uint8Array(await request.arrayBuffer());
+  const mediaType = request.headers
+    .get("Content-Type")
+    ?.split(";")[0]
+    .trim()
+    .toLowerCase();
+
+  const invalid = validateAttachment(bytes, mediaType);
+  if (invalid) {
+    return Response.json({ error: invalid }, { status: 400 });
+  }
+
+  const attachment = await saveAttachment(
+    env.DIFFS,
+    sessionId,
+    bytes,
+    mediaType as AttachmentType,
+  );
+  return Response.json(attachment, { status: 201 });
+}
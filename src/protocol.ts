@@ -0,0 +1,382 @@
+/**
+ * The session WebSocket protocol. Every message in either direction is one
+ * member of a discriminated union on `type`.
+ *
+ * Clients announce the newest protocol they speak in `hello`; the server
+ * answers in `welcome` with the version it will use, and never sends a
+ * client a message type newer than that. A client that omits `protocol`
+ * is treated as version 1, the original unversioned protocol.
+ *
+ * Broadcasts also carry a `seq` field, increasing by one per broadcast. A
+ * client that reconnects with `hello.lastSeq` is replayed every broadcast
+ * after it.
+ */
+import type { TranscriptEntry } from "./agent";
+import type { VersionMeta } from "./history";
+
+export const PROTOCOL_VERSION = 4;
+export const MIN_PROTOCOL_VERSION = 1;
+
+export type SessionStage =
+  "idle" | "restoring" | "running" | "choosing" | "done";
+
+export type DeltaKind = "text" | "reasoning" | "tool-input";
+
+export interface StreamChunk {
+  kind: DeltaKind;
+  text: string;
+  toolCallId?: string;
+  toolName?: string;
+  /** Which candidate this belongs to, when a prompt asked for variants. */
+  variant?: number;
+}
+
+/**
+ * One of several variants generated for a prompt. Failed candidates didn't
+ * compile and can't be chosen, but are listed with their diagnostics.
+ */
+export interface CandidateInfo {
+  index: number;
+  ok: boolean;
+  summary: string;
+  /** Paths relative to the project root. */
+  files: string[];
+  diagnostics?: string;
+}
+
+/**
+ * What a connection may do. Owners and collaborators can prompt and change
+ * versions; spectators only watch. Only connections that present the
+ * session's owner token can be anything but a spectator. When the owner
+ * disconnects, the longest-connected collaborator becomes the owner, and
+ * `presence` says so.
+ */
+export type ClientRole = "owner" | "collaborator" | "spectator";
+
+export interface Presence {
+  clientId: string;
+  role: ClientRole;
+  name?: string;
+}
+
+/** Who asked for a generation. */
+export interface PromptAuthor {
+  clientId: string;
+  name?: string;
+}
+
+export type AttachmentType =
+  "image/png" | "image/jpeg" | "image/webp" | "image/gif";
+
+/** An image uploaded with POST /sessions/:id/attachments. */
+export interface Attachment {
+  /** SHA-256 of the image, hex-encoded. */
+  id: string;
+  mediaType: AttachmentType;
+  size: number;
+}
+
+export interface QueuedPrompt {
+  id: string;
+  prompt: string;
+  model: string;
+  author: PromptAuthor;
+  queuedAt: number;
+  attachments?: Attachment[];
+  variants?: number;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/** What one generation cost, summed over all of its agent turns. */
+export interface GenerationUsage extends TokenUsage {
+  model: string;
+  latencyMs: number;
+  /** Estimated from list prices; null for models without a known price. */
+  costUsd: number | null;
+}
+
+/** Something the preview threw, or logged with console.error, in the browser. */
+export interface RuntimeErrorReport {
+  kind: "error" | "unhandledrejection" | "console";
+  message: string;
+  stack?: string;
+}
+
+export type QuotaKind = "sessions" | "generations" | "tokens";
+
+/** A client is over one of its limits until `resetAt` (ms since epoch). */
+export interface QuotaExceeded {
+  quota: QuotaKind;
+  limit: number;
+  used: number;
+  resetAt: number;
+}
+
+export type ErrorCode =
+  | "invalid_json"
+  | "invalid_message"
+  | "unsupported_protocol"
+  | "model_not_allowed"
+  | "forbidden"
+  | "invalid_token"
+  | "compile_failed"
+  | "misconfigured"
+  | "quota_exceeded";
+
+// ── Client → server ─────────────────────────────────────────────────
+
+export type ClientMessage =
+  | { type: "hello"; protocol?: number; lastSeq?: number; name?: string }
+  | {
+      type: "start";
+      prompt: string;
+      model?: string;
+      attachments?: string[];
+      /** Generate this many candidates (2–4) to choose from; default 1. */
+      variants?: number;
+    }
+  | { type: "cancel" }
+  | { type: "dequeue"; id: string }
+  | { type: "preview_candidate"; index: number }
+  | { type: "choose"; index: number }
+  | { type: "history" }
+  | { type: "undo" }
+  | { type: "redo" }
+  | { type: "revert"; version: number };
+
+// ── Server → client ─────────────────────────────────────────────────
+
+export type ServerMessage =
+  | {
+      type: "welcome";
+      protocol: number;
+      sessionId: string;
+      stage: SessionStage;
+      previewUrl?: string;
+      epoch: number;
+      transcript: TranscriptEntry[];
+      models: readonly string[];
+      /** Sequence number of the latest logged event. */
+      seq: number;
+      /** Set when `hello.lastSeq` could not be replayed; rebuild from this welcome. */
+      resync?: boolean;
+      clientId: string;
+      role: ClientRole;
+      queue: QueuedPrompt[];
+      /** The session's owner token; reconnect with `?token=` to keep editing. */
+      token?: string;
+      /** Set while `stage` is "choosing". */
+      candidates?: CandidateInfo[];
+    }
+  | { type: "ready" }
+  | { type: "status"; step: string; message: string; epoch?: number }
+  | {
+      type: "tool";
+      tool: string;
+      path?: string;
+      variant?: number;
+      epoch: number;
+    }
+  | ({ type: "delta"; epoch: number } & StreamChunk)
+  | {
+      type: "check";
+      attempt: number;
+      ok: boolean;
+      diagnostics: string;
+      variant?: number;
+      epoch: number;
+    }
+  | { type: "preview"; url: string; epoch: number }
+  | { type: "log"; stream: "stdout" | "stderr"; text: string }
+  | { type: "preview_down"; exitCode?: number; restartInMs: number }
+  | { type: "preview_up"; url: string }
+  | ({ type: "runtime_error"; epoch: number } & RuntimeErrorReport)
+  | { type: "visual_check"; ok: boolean; notes: string; epoch: number }
+  | { type: "candidates"; items: CandidateInfo[]; epoch: number }
+  | { type: "candidate_preview"; index: number | null; epoch: number }
+  | {
+      type: "done";
+      sessionId: string;
+      url?: string;
+      summary: string;
+      files: string[];
+      version: number;
+      model: string;
+      author?: PromptAuthor;
+      usage: GenerationUsage;
+      /** Worker-relative URL of a screenshot of the result. */
+      thumbnailUrl?: string;
+      epoch: number;
+    }
+  | {
+      type: "error";
+      message: string;
+      code?: ErrorCode;
+      diagnostics?: string;
+      allowed?: readonly string[];
+      epoch?: number;
+    }
+  | { type: "cancelled"; epoch: number }
+  | {
+      type: "history";
+      versions: VersionMeta[];
+      current: number;
+      canUndo: boolean;
+      canRedo: boolean;
+    }
+  | { type: "reverted"; version: number; epoch: number }
+  | {
+      type: "diff";
+      version: number;
+      baseline: string;
+      previous: string;
+      epoch: number;
+    }
+  | {
+      type: "restored";
+      sessionId: string;
+      url: string;
+      transcript: TranscriptEntry[];
+      epoch: number;
+    }
+  | { type: "expired" }
+  | { type: "full"; active: number }
+  | { type: "queued"; position: number; estimatedWaitMs: number }
+  | { type: "admitted"; sessionId: string; token?: string }
+  | ({ type: "quota_exceeded" } & QuotaExceeded)
+  | { type: "session"; sessionId: string; token?: string }
+  | { type: "presence"; clients: Presence[] }
+  | { type: "queue"; items: QueuedPrompt[] };
+
+export type ServerMessageType = ServerMessage["type"];
+
+export type ServerPayload<T extends ServerMessageType> = Omit<
+  Extract<ServerMessage, { type: T }>,
+  "type"
+>;
+
+/** The protocol version that introduced each server message type. */
+export const MESSAGE_SINCE: Record<ServerMessageType, number> = {
+  welcome: 1,
+  ready: 1,
+  status: 1,
+  preview: 1,
+  done: 1,
+  error: 1,
+  restored: 1,
+  expired: 1,
+  full: 1,
+  queued: 3,
+  admitted: 3,
+  quota_exceeded: 3,
+  tool: 2,
+  delta: 2,
+  check: 2,
+  cancelled: 2,
+  history: 2,
+  reverted: 2,
+  diff: 2,
+  session: 2,
+  presence: 3,
+  queue: 3,
+  log: 3,
+  preview_down: 3,
+  preview_up: 3,
+  runtime_error: 3,
+  visual_check: 3,
+  candidates: 4,
+  candidate_preview: 4,
+};
+
+// ── Validation ──────────────────────────────────────────────────────
+
+type FieldSpec = "string" | "string?" | "string[]?" | "integer" | "integer?";
+
+const CLIENT_FIELDS: {
+  [T in ClientMessage["type"]]: Record<string, FieldSpec>;
+} = {
+  hello: { protocol: "integer?", lastSeq: "integer?", name: "string?" },
+  start: {
+    prompt: "string",
+    model: "string?",
+    attachments: "string[]?",
+    variants: "integer?",
+  },
+  cancel: {},
+  dequeue: { id: "string" },
+  preview_candidate: { index: "integer" },
+  choose: { index: "integer" },
+  history: {},
+  undo: {},
+  redo: {},
+  revert: { version: "integer" },
+};
+
+export type ParseResult =
+  | { ok: true; message: ClientMessage }
+  | { ok: false; code: ErrorCode; error: string };
+
+/**
+ * Parses and validates a raw client frame. Unknown fields are ignored so
+ * newer clients can talk to older servers.
+ */
+export function parseClientMessage(raw: string): ParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, code: "invalid_json", error: "Invalid JSON" };
+  }
+
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return invalid("Message must be a JSON object");
+  }
+  const record = data as Record<string, unknown>;
+  if (typeof record.type !== "string") {
+    return invalid("Message is missing a string `type`");
+  }
+  if (!Object.hasOwn(CLIENT_FIELDS, record.type)) {
+    return invalid(`Unknown message type: ${record.type}`);
+  }
+
+  const fields = CLIENT_FIELDS[record.type as ClientMessage["type"]];
+  for (const [field, spec] of Object.entries(fields)) {
+    const value = record[field];
+    const optional = spec.endsWith("?");
+    if (value === undefined) {
+      if (optional) continue;
+      return invalid(`${record.type}.${field} is required`);
+    }
+    if (spec === "string[]?") {
+      if (
+        !Array.isArray(value) ||
+        !value.every((item) => typeof item === "string" && item)
+      ) {
+        return invalid(
+          `${record.type}.${field} must be an array of non-empty strings`,
+        );
+      }
+      continue;
+    }
+    if (spec.startsWith("string") && (typeof value !== "string" || !value)) {
+      return invalid(`${record.type}.${field} must be a non-empty string`);
+    }
+    if (
+      spec.startsWith("integer") &&
+      (typeof value !== "number" || !Number.isInteger(value) || value < 0)
+    ) {
+      return invalid(`${record.type}.${field} must be a non-negative integer`);
+    }
+  }
+
+  return { ok: true, message: record as ClientMessage };
+}
+
+function invalid(error: string): ParseResult {
+  return { ok: false, code: "invalid_message", error };
+}
@@ -0,0 +1,171 @@
+/**
+ * Reporting of errors the preview throws in the browser. The dev server is
+ * started with a wrapper Vite config that loads the project's own config and
+ * adds a plugin, so nothing in the project has to change (and the agent
+ * can't break it):
+ *
+ *   - a script injected into index.html catches uncaught errors, unhandled
+ *     rejections and console.error calls, and POSTs them to the dev server
+ *     with the key the config was written with;
+ *   - a middleware on the dev server checks the key and prints each report
+ *     to stdout as one line prefixed with RUNTIME_ERROR_MARKER, where the
+ *     Durable Object's log watcher picks it out of the stream.
+ *
+ * The key only proves a report came through the page: anyone who can open
+ * the preview can read it. Reports are untrusted text.
+ *
+ * The wrapper lives under node_modules so it resolves `vite` from the
+ * project and stays out of the agent's reach.
+ */
+import type { RuntimeErrorReport } from "./protocol";
+
+export const RUNTIME_ERROR_MARKER = "[goose-pond-editor:runtime-error] ";
+
+const ENDPOINT = "/__goose-pond-editor/runtime-error";
+const MAX_FIELD_LENGTH = 4_000;
+
+export const REPORTER_DIR = "node_modules/.goose-pond-editor";
+export const REPORTER_CONFIG_PATH = `${REPORTER_DIR}/vite.config.mjs`;
+
+const KEY_HEADER = "x-goose-pond-editor-key";
+
+// Runs in the preview page. Identical reports are sent once, and a page that
+// keeps failing gives up after a handful.
+function clientScript(key: string): string {
+  return `(() => {
+  const sent = new Set();
+  const report = (kind, message, stack) => {
+    const key = kind + ":" + message;
+    if (sent.has(key) || sent.size >= 20) return;
+    sent.add(key);
+    fetch(${JSON.stringify(ENDPOINT)}, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ${JSON.stringify(KEY_HEADER)}: ${JSON.stringify(key)},
+      },
+      body: JSON.stringify({ kind, message, stack }),
+      keepalive: true,
+    }).catch(() => {});
+  };
+  const describe = (value) => {
+    if (value instanceof Error) return value.message;
+    if (typeof value === "string") return value;
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  };
+
+  addEventListener("error", (event) => {
+    report("error", event.message, event.error && event.error.stack);
+  });
+  addEventListener("unhandledrejection", (event) => {
+    const reason = event.reason;
+    report("unhandledrejection", describe(reason), reason && reason.stack);
+  });
+  const consoleError = console.error;
+  console.error = (...args) => {
+    consoleError.apply(console, args);
+    const error = args.find((arg) => arg instanceof Error);
+    report("console", args.map(describe).join(" "), error && error.stack);
+  };
+})();`;
+}
+
+/**
+ * Source of the wrapper config written to REPORTER_CONFIG_PATH. Only reports
+ * sent with `key` are accepted; a fresh one is used on every start.
+ */
+export function reporterConfig(key: string): string {
+  return `import { defineConfig, loadConfigFromFile, mergeConfig } from "vite";
+
+const MARKER = ${JSON.stringify(RUNTIME_ERROR_MARKER)};
+const ENDPOINT = ${JSON.stringify(ENDPOINT)};
+const KEY_HEADER = ${JSON.stringify(KEY_HEADER)};
+const KEY = ${JSON.stringify(key)};
+const CLIENT_SCRIPT = ${JSON.stringify(clientScript(key))};
+
+const clip = (value) =>
+  typeof value === "string" ? value.slice(0, ${MAX_FIELD_LENGTH}) : undefined;
+
+function runtimeErrors() {
+  return {
+    name: "goose-pond-editor:runtime-errors",
+    apply: "serve",
+    transformIndexHtml: () => [
+      { tag: "script", children: CLIENT_SCRIPT, injectTo: "head-prepend" },
+    ],
+    configureServer(server) {
+      server.middlewares.use(ENDPOINT, (req, res) => {
+        if (req.headers[KEY_HEADER] !== KEY) {
+          res.statusCode = 403;
+          res.end();
+          return;
+        }
+        let body = "";
+        req.on("data", (chunk) => {
+          if (body.length < ${MAX_FIELD_LENGTH * 4}) body += chunk;
+        });
+        req.on("end", () => {
+          try {
+            const { kind, message, stack } = JSON.parse(body);
+            const report = { kind: clip(kind), message: clip(message) };
+            if (clip(stack)) report.stack = clip(stack);
+            if (report.kind && report.message) {
+              console.log(MARKER + JSON.stringify(report));
+            }
+          } catch {}
+          res.statusCode = 204;
+          res.end();
+        });
+      });
+    },
+  };
+}
+
+export default defineConfig(async (env) => {
+  const loaded = await loadConfigFromFile(env, undefined, process.cwd());
+  return mergeConfig(loaded?.config ?? {}, { plugins: [runtimeErrors()] });
+});
+`;
+}
+
+/**
+ * Splits a chunk of dev server stdout into runtime error reports and the
+ * ordinary output around them.
+ */
+export function extractRuntimeErrors(text: string): {
+  reports: RuntimeErrorReport[];
+  output: string;
+} {
+  const reports: RuntimeErrorReport[] = [];
+  const output: string[] = [];
+
+  for (const line of text.split("\n")) {
+    const start = line.indexOf(RUNTIME_ERROR_MARKER);
+    if (start === -1) {
+      output.push(line);
+      continue;
+    }
+    try {
+      const report = JSON.parse(
+        line.slice(start + RUNTIME_ERROR_MARKER.length),
+      ) as RuntimeErrorReport;
+      if (isReportKind(report.kind) && typeof report.message === "string") {
+        reports.push(report);
+      }
+    } catch {
+      output.push(line);
+    }
+  }
+
+  return { reports, output: output.join("\n") };
+}
+
+function isReportKind(kind: unknown): kind is RuntimeErrorReport["kind"] {
+  return (
+    kind === "error" || kind === "unhandledrejection" || kind === "console"
+  );
+}
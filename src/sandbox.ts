@@ -1,41 +1,247 @@
-import { Sandbox as BaseSandbox } from "@cloudflare/sandbox";
-import { generateText } from "ai";
+import {
+  parseSSEStream,
+  Sandbox as BaseSandbox,
+  type LogEvent,
+} from "@cloudflare/sandbox";
+import {
+  generateText,
+  stepCountIs,
+  streamText,
+  type LanguageModel,
+  type ModelMessage,
+  type ToolSet,
+} from "ai";
 import { createAiGateway } from "ai-gateway-provider";
 import { createUnified } from "ai-gateway-provider/providers/unified";
 import { customAlphabet } from "nanoid";
-
-const PROJECT_DIR = "/home/user/goose-pond";
-const VITE_PORT = 5173;
+import {
+  buildAgentMessage,
+  buildRepairPrompt,
+  buildRuntimeFixPrompt,
+  buildTranscriptMessages,
+  buildVisualCheckMessages,
+  createAgentTools,
+  MAX_AGENT_STEPS,
+  type ImageInput,
+  parseVisualCheck,
+  type TranscriptEntry,
+} from "./agent";
+import {
+  findAttachments,
+  loadAttachment,
+  MAX_ATTACHMENTS_PER_PROMPT,
+} from "./attachments";
+import { verifySessionToken } from "./auth";
+import {
+  candidateInfo,
+  candidateOverlay,
+  loadCandidates,
+  MAX_VARIANTS,
+  saveCandidates,
+  type StoredCandidate,
+} from "./candidates";
+import { EventLog, withSeq } from "./event-log";
+import {
+  loadDiff,
+  loadHistory,
+  loadVersionFiles,
+  recordVersion,
+  saveDiffs,
+  type VersionMeta,
+} from "./history";
+import {
+  MESSAGE_SINCE,
+  MIN_PROTOCOL_VERSION,
+  parseClientMessage,
+  PROTOCOL_VERSION,
+  type Attachment,
+  type CandidateInfo,
+  type ClientRole,
+  type GenerationUsage,
+  type Presence,
+  type PromptAuthor,
+  type QueuedPrompt,
+  type QuotaExceeded,
+  type RuntimeErrorReport,
+  type ServerMessage,
+  type ServerMessageType,
+  type ServerPayload,
+  type SessionStage,
+  type StreamChunk,
+  type TokenUsage,
+} from "./protocol";
+import {
+  extractRuntimeErrors,
+  REPORTER_CONFIG_PATH,
+  REPORTER_DIR,
+  reporterConfig,
+} from "./runtime-errors";
+import { captureScreenshots, type Screenshots } from "./screenshot";
+import { envNumber, type GenerationOutcome } from "./session-tracker";
+import {
+  loadSessionFiles,
+  manifestKey,
+  saveSessionFiles,
+} from "./session-storage";
+import { getTemplate, type Template } from "./templates";
+import { type Span, Timeline } from "./timeline";
+import { addTokenUsage, emptyTokenUsage, generationUsage } from "./usage";
+import {
+  applyStagedChanges,
+  checkStagedChanges,
+  CompileError,
+  diffSnapshots,
+  MAX_REPAIR_ROUNDS,
+  readIfExists,
+  resetToBaseline,
+  StagedChanges,
+  writeOverlay,
+} from "./workspace";
+
+const MAX_DEV_SERVER_RESTARTS = 5;
+const DEV_SERVER_RESTART_DELAY_MS = 1_000;
 const HEARTBEAT_INTERVAL_MS = 30_000;
+// How long a session with nobody connected waits for someone to come back
+// (a reload, say) before it is persisted and its lease released.
+const RECONNECT_GRACE_MS = 30_000;
+// Model output is batched this long into one `delta` per stream, so the
+// event log gets a row per batch rather than per token.
+const DELTA_FLUSH_MS = 150;
 const SESSION_STATE_KEY = "sessionState";
+const LAST_EPOCH_KEY = "lastEpoch";
 
 const generateSocketId = customAlphabet(
   "abcdefghijklmnopqrstuvwxyz0123456789",
   12,
 );
+const generateCandidateSetId = customAlphabet(
+  "abcdefghijklmnopqrstuvwxyz0123456789",
+  12,
+);
 
 interface WsAttachment {
   socketId: string;
   state: "connected" | "ready";
-  replaced?: boolean;
+  role: ClientRole;
+  /** Display name from `hello`, shown in presence and prompt attribution. */
+  name?: string;
+  /** Negotiated in `hello`; 1 until then. */
+  protocol?: number;
+  /** Who this socket's generations count against in SessionTracker quotas. */
+  clientKey?: string;
+  /** The verified owner token, if the socket presented one. */
+  token?: string;
+  connectedAt: number;
 }
 
-type SessionStage = "idle" | "restoring" | "running" | "done";
+/** A queued prompt as stored; `clientKey` never goes out to clients. */
+interface PendingPrompt extends QueuedPrompt {
+  clientKey?: string;
+  /** On automatic runtime-error fixes, how many ran in a row before this. */
+  runtimeFixes?: number;
+}
 
 interface SessionState {
   sessionId: string;
   leaseId: string;
   hostname: string;
+  /** Chosen at creation; unset on sessions from before there was a choice. */
+  template?: string;
   stage: SessionStage;
   epoch: number;
   previewUrl?: string;
   modifiedFiles: string[];
+  version: number;
+  redo: number[];
+  transcript: TranscriptEntry[];
+  /** Model chosen for this session; later `start`s without one reuse it. */
+  model?: string;
+  /** Prompts waiting for the current generation to finish, oldest first. */
+  queue: PendingPrompt[];
+  /** Variants waiting for a client to choose one; set while "choosing". */
+  candidates?: {
+    /** Where the set is stored; see candidates.ts. */
+    id: string;
+    epoch: number;
+    prompt: string;
+    model: string;
+    options: GenerationOptions;
+    items: CandidateInfo[];
+    /** The candidate currently swapped into the project, if any. */
+    previewing: number | null;
+    usage: GenerationUsage;
+  };
+  /** The generation that produced the running code, to fix on its behalf. */
+  lastRun?: {
+    epoch: number;
+    model: string;
+    author?: PromptAuthor;
+    clientKey?: string;
+    runtimeFixes: number;
+  };
+}
+
+/** Who a generation runs for, and what it was given besides the prompt. */
+interface GenerationOptions {
+  author?: PromptAuthor;
+  clientKey?: string;
+  /** On automatic runtime-error fixes, how many ran in a row before this. */
+  runtimeFixes?: number;
+  attachments?: Attachment[];
+  /** How many candidates to generate; more than one means choosing. */
+  variants?: number;
+}
+
+/** A change that is live in the project, ready to become a version. */
+interface CommitRequest {
+  epoch: number;
+  prompt: string;
+  modelId: string;
+  summary: string;
+  /** Absolute paths the change wrote. */
+  touched: string[];
+  options: GenerationOptions;
+  usage: GenerationUsage;
+  screenshots?: Screenshots;
+  candidates?: VersionMeta["candidates"];
+}
+
+interface ActiveGeneration {
+  epoch: number;
+  controller: AbortController;
+  committed: boolean;
+  prompt: string;
+  author?: PromptAuthor;
+  /** The first uncaught error the preview threw once its files were live. */
+  runtimeError?: RuntimeErrorReport;
 }
 
 export class Sandbox extends BaseSandbox<Env> {
   #stopping = false;
+  // Model output for the in-flight generation, replayed to sockets that
+  // reconnect mid-stream. Adjacent deltas of the same kind are merged.
+  #streamBuffer: { epoch: number; chunks: StreamChunk[] } | null = null;
+  // Deltas not yet broadcast; flushed on a timer or before any other event.
+  #pendingDeltas: { epoch: number; chunks: StreamChunk[] } | null = null;
+  #deltaFlush: ReturnType<typeof setTimeout> | null = null;
+  #generation: ActiveGeneration | null = null;
+  #draining = false;
+  // The Vite process being watched; aborting the controller stops watching.
+  #devServer: { processId: string; controller: AbortController } | null = null;
+  #devServerRestart: Promise<void> | null = null;
+  // Server-Sent Event subscribers (POST /demo); they get every broadcast.
+  #eventStreams = new Set<WritableStreamDefaultWriter<Uint8Array>>();
+  #eventLog: EventLog | undefined;
+  #timelineStore: Timeline | undefined;
 
   override async fetch(request: Request): Promise<Response> {
+    // Preview hosts proxy WebSocket upgrades (Vite's HMR socket) in here,
+    // marked with the port they are for. They belong to the container and
+    // must never reach the routes below, which trust the worker's params.
+    if (request.headers.has("cf-container-target-port")) {
+      return super.fetch(request);
+    }
+
     const url = new URL(request.url);
 
     if (
@@ -48,49 +254,65 @@ export class Sandbox extends BaseSandbox<Env> {
       const sessionId = url.searchParams.get("sessionId")!;
       const leaseId = url.searchParams.get("leaseId")!;
       const hostname = url.searchParams.get("hostname")!;
+      const template = url.searchParams.get("template") ?? undefined;
 
-      let state = await this.ctx.storage.get<SessionState>(SESSION_STATE_KEY);
-
-      if (!state) {
-        state = {
+      const state =
+        (await this.#loadState()) ??
+        newSessionState(
           sessionId,
           leaseId,
           hostname,
-          stage: "idle",
-          epoch: 0,
-          modifiedFiles: [],
-        };
-      }
+          await this.#nextEpoch(),
+          template,
+        );
+
+      // The worker has verified the token (or just issued it); it is checked
+      // again here so nothing else can hand out an editing role. Without
+      // one a socket can only watch; of those with one, the first to arrive
+      // owns the session and the rest collaborate until the owner leaves.
+      const presented = url.searchParams.get("token");
+      const token =
+        presented &&
+        (await verifySessionToken(
+          this.env.SESSION_SECRET,
+          state.sessionId,
+          presented,
+        ))
+          ? presented
+          : undefined;
+      const role: ClientRole =
+        !token || url.searchParams.get("role") === "spectator"
+          ? "spectator"
+          : this.#presence().some((p) => p.role === "owner")
+            ? "collaborator"
+            : "owner";
 
-      // Accept new socket FIRST
       this.ctx.acceptWebSocket(server);
 
       const attachment: WsAttachment = {
         socketId,
         state: "connected",
+        role,
+        clientKey: url.searchParams.get("clientKey") ?? undefined,
+        token,
+        connectedAt: Date.now(),
       };
       server.serializeAttachment(attachment);
 
       await this.ctx.storage.put(SESSION_STATE_KEY, state);
       await this.ctx.storage.setAlarm(Date.now() + HEARTBEAT_INTERVAL_MS);
 
-      // THEN close old sockets — mark each as replaced before closing
-      for (const existing of this.ctx.getWebSockets()) {
-        if (existing === server) continue;
-        try {
-          const existingAtt =
-            existing.deserializeAttachment() as WsAttachment | null;
-          if (existingAtt) {
-            existingAtt.replaced = true;
-            existing.serializeAttachment(existingAtt);
-          }
-          existing.close(1000, "Replaced by new connection");
-        } catch {}
-      }
-
       return new Response(null, { status: 101, webSocket: client });
     }
 
+    if (url.pathname === "/demo" && request.method === "POST") {
+      return this.#handleDemo(request, url);
+    }
+
+    if (url.pathname === "/timeline" && request.method === "GET") {
+      return Response.json({ epochs: this.#timeline().epochs() });
+    }
+
     return super.fetch(request);
   }
 
@@ -100,45 +322,87 @@ export class Sandbox extends BaseSandbox<Env> {
   ): Promise<void> {
     if (typeof message !== "string") return;
 
-    let data: { type: string; prompt?: string };
-    try {
-      data = JSON.parse(message);
-    } catch {
-      this.#send(ws, "error", { message: "Invalid JSON" });
+    const parsed = parseClientMessage(message);
+    if (!parsed.ok) {
+      this.#send(ws, "error", { message: parsed.error, code: parsed.code });
       return;
     }
+    const data = parsed.message;
 
     const att = ws.deserializeAttachment() as WsAttachment;
 
     switch (data.type) {
       case "hello":
-        await this.#handleHello(ws, att);
+        await this.#handleHello(
+          ws,
+          att,
+          data.protocol,
+          data.lastSeq,
+          data.name,
+        );
         break;
 
       case "start":
-        await this.#handleStart(ws, att, data.prompt);
+        await this.#handleStart(
+          ws,
+          att,
+          data.prompt,
+          data.model,
+          data.attachments,
+          data.variants,
+        );
         break;
 
-      default:
-        this.#send(ws, "error", {
-          message: `Unknown message type: ${data.type}`,
-        });
+      case "cancel":
+        await this.#handleCancel(ws, att);
+        break;
+
+      case "dequeue":
+        await this.#handleDequeue(ws, att, data.id);
+        break;
+
+      case "preview_candidate":
+        await this.#handlePreviewCandidate(ws, att, data.index);
+        break;
+
+      case "choose":
+        await this.#handleChoose(ws, att, data.index);
+        break;
+
+      case "history":
+        await this.#handleHistory(ws);
+        break;
+
+      case "undo":
+        await this.#handleUndo(ws, att);
+        break;
+
+      case "redo":
+        await this.#handleRedo(ws, att);
+        break;
+
+      case "revert":
+        await this.#handleRevert(ws, att, data.version);
+        break;
     }
   }
 
   async webSocketClose(ws: WebSocket): Promise<void> {
     if (this.#stopping) return;
 
-    const att = ws.deserializeAttachment() as WsAttachment | null;
-    if (att?.replaced) return;
-
     const remaining = this.ctx.getWebSockets().filter((s) => s !== ws);
     if (remaining.length === 0) {
-      const state = await this.#loadState();
-      if (state) {
-        await this.#finalizeAndDestroy(state);
+      // Left to the alarm, which tears down only if nobody has come back
+      // and no generation is still running.
+      if (await this.#loadState()) {
+        await this.ctx.storage.setAlarm(Date.now() + RECONNECT_GRACE_MS);
       }
+      return;
     }
+
+    const att = ws.deserializeAttachment() as WsAttachment | null;
+    if (att?.role === "owner") this.#promoteOwner(remaining);
+    this.#broadcast("presence", { clients: this.#presence(ws) });
   }
 
   async webSocketError(ws: WebSocket, error: unknown): Promise<void> {
@@ -154,7 +418,11 @@ export class Sandbox extends BaseSandbox<Env> {
 
     const sockets = this.ctx.getWebSockets();
 
-    if (sockets.length === 0) {
+    if (
+      sockets.length === 0 &&
+      this.#eventStreams.size === 0 &&
+      !this.#generation
+    ) {
       await this.#finalizeAndDestroy(state);
       return;
     }
@@ -173,6 +441,7 @@ export class Sandbox extends BaseSandbox<Env> {
 
   override async onStop() {
     this.#stopping = true;
+    this.#devServer?.controller.abort();
     this.#broadcast("expired");
 
     for (const ws of this.ctx.getWebSockets()) {
@@ -184,7 +453,7 @@ export class Sandbox extends BaseSandbox<Env> {
     const state = await this.#loadState();
     if (state) {
       await this.ctx.storage.deleteAlarm();
-      await this.ctx.storage.delete(SESSION_STATE_KEY);
+      await this.#deleteState();
 
       try {
         const tracker = this.env.SessionTracker.get(
@@ -197,15 +466,66 @@ export class Sandbox extends BaseSandbox<Env> {
     await super.onStop();
   }
 
+  // ── Operator RPC ──────────────────────────────────────────────────
+  // Called by admin.ts over RPC only: anything routed through fetch can also
+  // arrive from a preview URL, which knows no more than the session id.
+
+  /** The session as the operator API shows it. */
+  async getAdminState(): Promise<Record<string, unknown>> {
+    const state = await this.#loadState();
+    if (!state) return { state: null };
+
+    return {
+      state: { ...state, queue: queueItems(state) },
+      previewUrl: state.previewUrl ?? null,
+      lastPrompt:
+        this.#generation?.prompt ?? state.transcript.at(-1)?.prompt ?? null,
+      connections: this.#presence(),
+      eventStreams: this.#eventStreams.size,
+    };
+  }
+
+  async adminDestroy(): Promise<{ destroyed: true; hadState: boolean }> {
+    const state = await this.#loadState();
+    this.#generation?.controller.abort();
+
+    this.#broadcast("error", {
+      message: "Session was shut down by an operator",
+    });
+    if (state) await this.#finalizeAndDestroy(state);
+    // Stopping the container runs onStop, which closes every socket.
+    await this.destroy();
+
+    return { destroyed: true, hadState: Boolean(state) };
+  }
+
   // ── Message handlers ──────────────────────────────────────────────
 
-  async #handleHello(ws: WebSocket, att: WsAttachment): Promise<void> {
+  async #handleHello(
+    ws: WebSocket,
+    att: WsAttachment,
+    protocol = MIN_PROTOCOL_VERSION,
+    lastSeq?: number,
+    name?: string,
+  ): Promise<void> {
     if (att.state !== "connected") {
       this.#send(ws, "error", { message: "Already sent hello" });
       return;
     }
 
+    if (protocol < MIN_PROTOCOL_VERSION) {
+      this.#send(ws, "error", {
+        message: `Protocol ${protocol} is no longer supported (minimum ${MIN_PROTOCOL_VERSION})`,
+        code: "unsupported_protocol",
+      });
+      ws.close(1002, "Unsupported protocol");
+      return;
+    }
+
     att.state = "ready";
+    const negotiated = Math.min(protocol, PROTOCOL_VERSION);
+    att.protocol = negotiated;
+    att.name = name;
     ws.serializeAttachment(att);
 
     let state = await this.#loadState();
@@ -213,20 +533,13 @@ export class Sandbox extends BaseSandbox<Env> {
 
     switch (state.stage) {
       case "idle": {
-        const manifest = await this.env.DIFFS.get(
-          `sessions/${state.sessionId}/manifest.json`,
-        );
+        const manifest = await this.env.DIFFS.get(manifestKey(state.sessionId));
         // Re-check state after R2 await (non-storage I/O allows interleaving)
         state = await this.#loadState();
         if (!state) return;
 
         if (state.stage !== "idle") {
-          this.#send(ws, "welcome", {
-            sessionId: state.sessionId,
-            stage: state.stage,
-            previewUrl: state.previewUrl,
-            epoch: state.epoch,
-          });
+          this.#sendWelcome(ws, att, state, lastSeq);
           break;
         }
 
@@ -235,249 +548,1421 @@ export class Sandbox extends BaseSandbox<Env> {
           state.stage = "restoring";
           state.epoch += 1;
           await this.#saveState(state);
-          this.#send(ws, "welcome", {
-            sessionId: state.sessionId,
-            stage: "restoring",
-            epoch: state.epoch,
-          });
+          this.#sendWelcome(ws, att, state, lastSeq);
           await this.#restoreSession(manifest, state.epoch, sessionId);
         } else {
-          this.#send(ws, "welcome", {
-            sessionId: state.sessionId,
-            stage: "idle",
-            epoch: state.epoch,
-          });
+          this.#sendWelcome(ws, att, state, lastSeq);
           this.#send(ws, "ready");
         }
         break;
       }
 
       case "done":
-        this.#send(ws, "welcome", {
-          sessionId: state.sessionId,
-          stage: "done",
-          previewUrl: state.previewUrl,
-          epoch: state.epoch,
-        });
+        this.#sendWelcome(ws, att, state, lastSeq);
         this.#send(ws, "ready");
         break;
 
       case "restoring":
       case "running":
-        this.#send(ws, "welcome", {
-          sessionId: state.sessionId,
-          stage: state.stage,
-          previewUrl: state.previewUrl,
-          epoch: state.epoch,
-        });
+      case "choosing":
+        this.#sendWelcome(ws, att, state, lastSeq);
         break;
+
+      default:
+        state.stage satisfies never;
+    }
+  }
+
+  /**
+   * Sends `welcome`, then catches the socket up: with a `lastSeq`, by
+   * replaying every logged event after it; otherwise (or if the log no
+   * longer reaches back that far) with the model output streamed so far.
+   * Finally tells everyone the socket has joined.
+   */
+  #sendWelcome(
+    ws: WebSocket,
+    att: WsAttachment,
+    state: SessionState,
+    lastSeq?: number,
+  ): void {
+    // Whatever is replayed or resent below then includes all model output.
+    this.#flushDeltas();
+    const events = this.#events();
+    const replay = lastSeq === undefined ? null : events.after(lastSeq);
+
+    this.#send(ws, "welcome", {
+      protocol: att.protocol ?? MIN_PROTOCOL_VERSION,
+      sessionId: state.sessionId,
+      stage: state.stage,
+      previewUrl: state.previewUrl,
+      epoch: state.epoch,
+      transcript: state.transcript,
+      models: this.env.ALLOWED_MODELS,
+      seq: events.latestSeq(),
+      ...(lastSeq !== undefined && { resync: replay === null }),
+      clientId: att.socketId,
+      role: att.role,
+      queue: queueItems(state),
+      ...(att.token && { token: att.token }),
+      ...(state.candidates && { candidates: state.candidates.items }),
+    });
+
+    if (replay) {
+      for (const event of replay) {
+        if (!understands(ws, event.type as ServerMessageType)) continue;
+        try {
+          ws.send(withSeq(event.payload, event.seq));
+        } catch {}
+      }
+    } else if (this.#streamBuffer?.epoch === state.epoch) {
+      for (const chunk of this.#streamBuffer.chunks) {
+        this.#send(ws, "delta", { ...chunk, epoch: state.epoch });
+      }
     }
+
+    this.#broadcast("presence", { clients: this.#presence() });
   }
 
   async #handleStart(
     ws: WebSocket,
-    _att: WsAttachment,
-    prompt?: string,
+    att: WsAttachment,
+    prompt: string,
+    model?: string,
+    attachmentIds: string[] = [],
+    variants = 1,
   ): Promise<void> {
-    if (!prompt) {
-      this.#send(ws, "error", { message: "prompt is required" });
-      return;
-    }
+    if (!this.#canEdit(ws, att)) return;
 
     const state = await this.#loadState();
     if (!state) return;
 
-    if (state.stage !== "idle" && state.stage !== "done") {
+    const modelId = model ?? state.model ?? this.env.DEFAULT_MODEL;
+    if (!this.#isAllowedModel(modelId)) {
+      this.#send(ws, "error", {
+        message: `Model not allowed: ${modelId}`,
+        code: "model_not_allowed",
+        allowed: this.env.ALLOWED_MODELS,
+      });
+      return;
+    }
+
+    if (variants < 1 || variants > MAX_VARIANTS) {
+      this.#send(ws, "error", {
+        message: `variants must be between 1 and ${MAX_VARIANTS}`,
+        code: "invalid_message",
+      });
+      return;
+    }
+    // Choosing needs `candidates`; a client without it would be stuck.
+    if (variants > 1 && !understands(ws, "candidates")) {
+      this.#send(ws, "error", {
+        message: `variants needs protocol ${MESSAGE_SINCE.candidates} or later`,
+        code: "invalid_message",
+      });
+      return;
+    }
+
+    if (attachmentIds.length > MAX_ATTACHMENTS_PER_PROMPT) {
       this.#send(ws, "error", {
-        message: "A generation is already in progress",
+        message: `At most ${MAX_ATTACHMENTS_PER_PROMPT} attachments per prompt`,
+        code: "invalid_message",
       });
       return;
     }
+    const attachments = await findAttachments(
+      this.env.DIFFS,
+      state.sessionId,
+      attachmentIds,
+    );
+    if (!attachments) {
+      this.#send(ws, "error", {
+        message: "Unknown attachment; upload it to /sessions/:id/attachments",
+        code: "invalid_message",
+      });
+      return;
+    }
+
+    if (att.clientKey) {
+      const exceeded = await this.#consumeGeneration(att.clientKey);
+      if (exceeded) {
+        this.#sendQuotaExceeded(ws, exceeded);
+        return;
+      }
+    }
+
+    // Reloaded: the lookups above gave other messages a chance to run.
+    const current = await this.#loadState();
+    if (!current) return;
+
+    // Prompts run one at a time, in the order they arrive.
+    current.queue.push({
+      id: generateSocketId(),
+      prompt,
+      model: modelId,
+      author: { clientId: att.socketId, name: att.name },
+      queuedAt: Date.now(),
+      clientKey: att.clientKey,
+      ...(attachments.length > 0 && { attachments }),
+      ...(variants > 1 && { variants }),
+    });
+    await this.#saveState(current);
+    this.#broadcast("queue", { items: queueItems(current) });
 
-    await this.#runGeneration(prompt);
+    await this.#drainQueue();
   }
 
-  // ── Core operations ───────────────────────────────────────────────
+  async #handleDequeue(
+    ws: WebSocket,
+    att: WsAttachment,
+    id: string,
+  ): Promise<void> {
+    if (!this.#canEdit(ws, att)) return;
 
-  async #runGeneration(prompt: string): Promise<void> {
-    let state = await this.#loadState();
+    const state = await this.#loadState();
     if (!state) return;
 
-    state.stage = "running";
-    state.epoch += 1;
-    await this.#saveState(state);
-    const epoch = state.epoch;
+    const queued = state.queue.find((q) => q.id === id);
+    if (!queued) {
+      this.#send(ws, "error", { message: `Not in the queue: ${id}` });
+      return;
+    }
+    if (att.role !== "owner" && queued.author.clientId !== att.socketId) {
+      this.#send(ws, "error", {
+        message: "Only the owner can remove someone else's prompt",
+        code: "forbidden",
+      });
+      return;
+    }
 
-    try {
-      if (!state.previewUrl) {
-        this.#broadcast("status", {
-          step: "server",
-          message: "Starting dev server…",
-          epoch,
-        });
-        const server = await this.#withContainerRetry(
-          () => this.startProcess("npx vite --host", { cwd: PROJECT_DIR }),
-          epoch,
-        );
-        await server.waitForPort(VITE_PORT, { mode: "tcp" });
+    state.queue = state.queue.filter((q) => q !== queued);
+    await this.#saveState(state);
+    this.#broadcast("queue", { items: queueItems(state) });
+  }
 
-        const exposed = await this.#ensurePortExposed(
-          VITE_PORT,
-          state.hostname,
-          state.sessionId,
-        );
+  /**
+   * Runs queued prompts until the queue is empty. Only one drain runs at a
+   * time; a `start` that arrives mid-drain is picked up by the running one.
+   */
+  async #drainQueue(): Promise<void> {
+    if (this.#draining) return;
+    this.#draining = true;
 
-        state = await this.#loadState();
+    try {
+      for (;;) {
+        const state = await this.#loadState();
         if (!state) return;
-        state.previewUrl = exposed.url;
+        if (state.stage !== "idle" && state.stage !== "done") return;
+
+        const next = state.queue.shift();
+        if (!next) return;
         await this.#saveState(state);
-        this.#broadcast("preview", { url: exposed.url, epoch });
+        this.#broadcast("queue", { items: queueItems(state) });
+
+        await this.#runGeneration(next.prompt, next.model, next);
       }
+    } finally {
+      this.#draining = false;
+    }
+  }
 
-      await this.#renewLease(state.leaseId);
+  async #consumeGeneration(clientKey: string): Promise<QuotaExceeded | null> {
+    const tracker = this.env.SessionTracker.get(
+      this.env.SessionTracker.idFromName("global"),
+    );
+    return tracker.consumeGeneration(clientKey);
+  }
 
-      this.#broadcast("status", {
-        step: "agent",
-        message: "Agent is reading code…",
-        epoch,
+  #canEdit(ws: WebSocket, att: WsAttachment): boolean {
+    if (att.role === "spectator") {
+      this.#send(ws, "error", {
+        message:
+          "This connection is read-only; reconnect with the session's token to make changes",
+        code: "forbidden",
       });
+      return false;
+    }
+    return true;
+  }
 
-      const [appFile, gooseFile, cssFile] = await this.#withContainerRetry(
-        () =>
-          Promise.all([
-            this.readFile(`${PROJECT_DIR}/src/App.tsx`),
-            this.readFile(`${PROJECT_DIR}/src/PixelGoose.tsx`),
-            this.readFile(`${PROJECT_DIR}/src/index.css`),
-          ]),
-        epoch,
+  #isAllowedModel(modelId: string): boolean {
+    return (this.env.ALLOWED_MODELS as readonly string[]).includes(modelId);
+  }
+
+  async #handleDemo(request: Request, url: URL): Promise<Response> {
+    const { prompt, model } = (await request.json()) as {
+      prompt: string;
+      model?: string;
+    };
+    const modelId = model ?? this.env.DEFAULT_MODEL;
+    if (!this.#isAllowedModel(modelId)) {
+      return Response.json(
+        {
+          error: `Model not allowed: ${modelId}`,
+          allowed: this.env.ALLOWED_MODELS,
+        },
+        { status: 400 },
       );
+    }
 
-      this.#broadcast("status", {
-        step: "agent",
-        message: "Agent is thinking…",
-        epoch,
-      });
+    // The worker sends /demo to a Sandbox it has just picked for a new
+    // session, with a lease, a client and a freshly signed token. A request
+    // missing any of them didn't come from it.
+    const sessionId = url.searchParams.get("sessionId");
+    const leaseId = url.searchParams.get("leaseId");
+    const hostname = url.searchParams.get("hostname");
+    const clientKey = url.searchParams.get("clientKey");
+    const token = url.searchParams.get("token");
+    if (
+      !sessionId ||
+      !leaseId ||
+      !hostname ||
+      !clientKey ||
+      !token ||
+      !(await verifySessionToken(this.env.SESSION_SECRET, sessionId, token))
+    ) {
+      return Response.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (await this.#loadState()) {
+      return Response.json(
+        { error: "The session already exists" },
+        { status: 409 },
+      );
+    }
+
+    const exceeded = await this.#consumeGeneration(clientKey);
+    if (exceeded) {
+      return Response.json(
+        { error: "Quota exceeded", ...exceeded },
+        { status: 429 },
+      );
+    }
+    const state = newSessionState(
+      sessionId,
+      leaseId,
+      hostname,
+      await this.#nextEpoch(),
+      url.searchParams.get("template") ?? undefined,
+    );
+    await this.#saveState(state);
+    await this.ctx.storage.setAlarm(Date.now() + HEARTBEAT_INTERVAL_MS);
+
+    const { readable, writable } = new TransformStream<Uint8Array>();
+    const writer = writable.getWriter();
+    this.#eventStreams.add(writer);
+    this.#writeEvent(
+      writer,
+      "session",
+      JSON.stringify({
+        type: "session",
+        sessionId: state.sessionId,
+        token,
+      } satisfies ServerMessage),
+    );
+
+    this.ctx.waitUntil(
+      (async () => {
+        try {
+          await this.#runGeneration(prompt, modelId, { clientKey });
+        } finally {
+          this.#eventStreams.delete(writer);
+          try {
+            await writer.close();
+          } catch {}
+
+          // A one-shot demo has nobody to come back; release its lease now.
+          if (
+            this.ctx.getWebSockets().length === 0 &&
+            this.#eventStreams.size === 0
+          ) {
+            const finalState = await this.#loadState();
+            if (finalState) await this.#finalizeAndDestroy(finalState);
+          }
+        }
+      })(),
+    );
+
+    return new Response(readable, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+      },
+    });
+  }
+
+  async #handleCancel(ws: WebSocket, att: WsAttachment): Promise<void> {
+    if (!this.#canEdit(ws, att)) return;
 
-      const aigateway = createAiGateway({
-        accountId: "8acffcc765d5baa91c873d1459ba1a19",
-        gateway: "dev-envs-for-agents",
-        apiKey: this.env.CF_AIG_TOKEN,
+    const state = await this.#loadState();
+    if (!state) return;
+
+    if (state.stage === "choosing" && state.candidates) {
+      if (!this.#mayDecide(ws, att, state.candidates.options.author)) return;
+      // Drop the candidates; they stay on record in R2.
+      await this.#showCandidate(null);
+      const current = await this.#loadState();
+      if (!current) return;
+      current.candidates = undefined;
+      current.stage = current.version > 0 ? "done" : "idle";
+      await this.#saveState(current);
+      this.#broadcast("cancelled", { epoch: current.epoch });
+      this.#broadcast("ready");
+      await this.#drainQueue();
+      return;
+    }
+
+    if (state.stage !== "running") {
+      this.#send(ws, "error", { message: "No generation in progress" });
+      return;
+    }
+
+    const generation = this.#generation;
+    if (generation?.epoch === state.epoch) {
+      if (!this.#mayDecide(ws, att, generation.author)) return;
+      if (generation.committed) {
+        this.#send(ws, "error", {
+          message: "Changes are already applied and being saved",
+        });
+        return;
+      }
+      // #runGeneration observes the abort and settles the state itself.
+      generation.controller.abort();
+      return;
+    }
+
+    // The DO restarted mid-generation (or mid-choice): nothing is running,
+    // so just unstick it.
+    if (state.candidates) {
+      state.stage = "choosing";
+      await this.#saveState(state);
+      this.#broadcast("candidates", {
+        items: state.candidates.items,
+        epoch: state.candidates.epoch,
       });
-      const unified = createUnified();
+      return;
+    }
+    state.stage = state.version > 0 ? "done" : "idle";
+    await this.#saveState(state);
+    this.#broadcast("cancelled", { epoch: state.epoch });
+    this.#broadcast("ready");
+    await this.#drainQueue();
+  }
 
-      const { text: modifiedCode } = await generateText({
-        model: aigateway(unified("google-ai-studio/gemini-2.5-flash")),
-        prompt: buildLLMPrompt(
-          prompt,
-          appFile.content,
-          gooseFile.content,
-          cssFile.content,
-        ),
+  /** Only the owner may cancel or settle someone else's prompt. */
+  #mayDecide(ws: WebSocket, att: WsAttachment, author?: PromptAuthor): boolean {
+    if (att.role !== "owner" && author && author.clientId !== att.socketId) {
+      this.#send(ws, "error", {
+        message: "Only the owner can decide on someone else's prompt",
+        code: "forbidden",
       });
+      return false;
+    }
+    return true;
+  }
 
-      this.#broadcast("status", {
-        step: "modify",
-        message: "Applying changes…",
-        epoch,
+  async #handlePreviewCandidate(
+    ws: WebSocket,
+    att: WsAttachment,
+    index: number,
+  ): Promise<void> {
+    if (!this.#canEdit(ws, att)) return;
+
+    const state = await this.#loadState();
+    if (!state) return;
+    if (!this.#choosable(ws, state, index)) return;
+
+    try {
+      await this.#showCandidate(index);
+    } catch (err) {
+      this.#send(ws, "error", {
+        message: `Failed to preview candidate ${index}: ${String(err)}`,
       });
-      const code = extractCode(modifiedCode);
-      await this.writeFile(`${PROJECT_DIR}/src/App.tsx`, code);
+    }
+  }
 
-      state = await this.#loadState();
-      if (!state) return;
-      state.modifiedFiles = [`${PROJECT_DIR}/src/App.tsx`];
-      state.stage = "done";
-      await this.#saveState(state);
+  /**
+   * Commits candidate `index` as the prompt's result. The candidates that
+   * weren't chosen are recorded with the new version.
+   */
+  async #handleChoose(
+    ws: WebSocket,
+    att: WsAttachment,
+    index: number,
+  ): Promise<void> {
+    if (!this.#canEdit(ws, att)) return;
 
-      await this.#persistToR2(state);
-      await this.#renewLease(state.leaseId);
+    let state = await this.#loadState();
+    if (!state) return;
+    if (!this.#choosable(ws, state, index)) return;
+    const pending = state.candidates!;
+    if (!this.#mayDecide(ws, att, pending.options.author)) return;
 
-      this.#broadcast("done", {
-        sessionId: state.sessionId,
-        url: state.previewUrl,
+    // Nothing else may start while the choice is being committed, and it
+    // can't be cancelled: tracked as a generation whose files are applied.
+    state.stage = "running";
+    await this.#saveState(state);
+    const { epoch } = pending;
+    const template = getTemplate(state.template);
+    const generation: ActiveGeneration = {
+      epoch,
+      controller: new AbortController(),
+      committed: true,
+      prompt: pending.prompt,
+      author: pending.options.author,
+    };
+    this.#generation = generation;
+
+    try {
+      await this.#showCandidate(index);
+      const screenshots = await this.#captureScreenshots(epoch, template);
+      const committed = await this.#commitChanges({
         epoch,
+        prompt: pending.prompt,
+        modelId: pending.model,
+        summary: pending.items[index].summary,
+        touched: pending.items[index].files.map((f) => `${template.dir}/${f}`),
+        options: pending.options,
+        usage: pending.usage,
+        screenshots,
+        candidates: { id: pending.id, chosen: index, items: pending.items },
       });
+      if (committed && generation.runtimeError) {
+        await this.#queueRuntimeFix(generation.runtimeError);
+      }
     } catch (err) {
       state = await this.#loadState();
       if (!state) return;
-      state.stage = "idle";
+      state.stage = "choosing";
       await this.#saveState(state);
-      this.#broadcast("error", { message: String(err), epoch });
-      this.#broadcast("ready");
+      this.#broadcast("error", {
+        message: `Failed to commit candidate ${index}: ${String(err)}`,
+        epoch,
+      });
+      return;
+    } finally {
+      if (this.#generation === generation) this.#generation = null;
     }
+
+    await this.#drainQueue();
   }
 
-  async #restoreSession(
-    manifestObj: R2ObjectBody,
-    epoch: number,
-    sessionId: string,
+  #choosable(ws: WebSocket, state: SessionState, index: number): boolean {
+    if (state.stage !== "choosing" || !state.candidates) {
+      this.#send(ws, "error", { message: "No candidates to choose from" });
+      return false;
+    }
+    if (!state.candidates.items[index]?.ok) {
+      this.#send(ws, "error", {
+        message: `Candidate ${index} doesn't exist or didn't compile`,
+      });
+      return false;
+    }
+    return true;
+  }
+
+  async #handleHistory(ws: WebSocket): Promise<void> {
+    const state = await this.#loadState();
+    if (!state) return;
+
+    const versions = await loadHistory(this.env.DIFFS, state.sessionId);
+    this.#send(ws, "history", historyPayload(state, versions));
+  }
+
+  async #handleUndo(ws: WebSocket, att: WsAttachment): Promise<void> {
+    if (!this.#canEdit(ws, att)) return;
+
+    const state = await this.#loadState();
+    if (!state) return;
+    if (!this.#canChangeVersion(ws, state)) return;
+
+    if (state.version === 0) {
+      this.#send(ws, "error", { message: "Nothing to undo" });
+      return;
+    }
+
+    const versions = await loadHistory(this.env.DIFFS, state.sessionId);
+    const current = versions.find((v) => v.version === state.version);
+    await this.#restoreVersion(versions, current?.parent ?? 0, [
+      ...state.redo,
+      state.version,
+    ]);
+  }
+
+  async #handleRedo(ws: WebSocket, att: WsAttachment): Promise<void> {
+    if (!this.#canEdit(ws, att)) return;
+
+    const state = await this.#loadState();
+    if (!state) return;
+    if (!this.#canChangeVersion(ws, state)) return;
+
+    const target = state.redo.at(-1);
+    if (target === undefined) {
+      this.#send(ws, "error", { message: "Nothing to redo" });
+      return;
+    }
+
+    const versions = await loadHistory(this.env.DIFFS, state.sessionId);
+    await this.#restoreVersion(versions, target, state.redo.slice(0, -1));
+  }
+
+  async #handleRevert(
+    ws: WebSocket,
+    att: WsAttachment,
+    version: number,
+  ): Promise<void> {
+    if (!this.#canEdit(ws, att)) return;
+
+    const state = await this.#loadState();
+    if (!state) return;
+    if (!this.#canChangeVersion(ws, state)) return;
+
+    const versions = await loadHistory(this.env.DIFFS, state.sessionId);
+    if (version !== 0 && !versions.some((v) => v.version === version)) {
+      this.#send(ws, "error", { message: `Unknown version: ${version}` });
+      return;
+    }
+
+    await this.#restoreVersion(versions, version, []);
+  }
+
+  #canChangeVersion(ws: WebSocket, state: SessionState): boolean {
+    if (state.stage !== "idle" && state.stage !== "done") {
+      this.#send(ws, "error", {
+        message:
+          state.stage === "choosing"
+            ? "Choose a candidate, or cancel, first"
+            : "A generation is already in progress",
+      });
+      return false;
+    }
+    return true;
+  }
+
+  // ── Core operations ───────────────────────────────────────────────
+
+  async #runGeneration(
+    prompt: string,
+    modelId: string,
+    options: GenerationOptions = {},
   ): Promise<void> {
+    const { author, clientKey, attachments = [], variants = 1 } = options;
+    let state = await this.#loadState();
+    if (!state) return;
+
+    state.stage = "running";
+    state.model = modelId;
+    state.epoch += 1;
+    await this.#saveState(state);
+    const epoch = state.epoch;
+    const template = getTemplate(state.template);
+    const controller = new AbortController();
+    const { signal } = controller;
+    const generation: ActiveGeneration = {
+      epoch,
+      controller,
+      committed: false,
+      prompt,
+      author,
+    };
+    // Model tokens spent, charged to the author's daily quota at the end.
+    const tokens = emptyTokenUsage();
+    const startedAt = Date.now();
+    this.#generation = generation;
+
     try {
+      // Let a crash restart finish rather than racing it for the port.
+      await this.#devServerRestart;
+      state = await this.#loadState();
+      if (!state) return;
+
+      if (state.previewUrl && !this.#devServer) {
+        // Evicted since the server started: watch it again, or start over
+        // if it died unwatched.
+        if (!(await this.#adoptDevServer(template))) {
+          state.previewUrl = undefined;
+          await this.#saveState(state);
+        }
+      }
+
+      if (!state.previewUrl) {
+        this.#broadcast("status", {
+          step: "server",
+          message: "Starting dev server…",
+          epoch,
+        });
+        const { hostname, sessionId } = state;
+        const url = await this.#startDevServer(
+          epoch,
+          template,
+          hostname,
+          sessionId,
+          signal,
+        );
+
+        state = await this.#loadState();
+        if (!state) return;
+        state.previewUrl = url;
+        await this.#saveState(state);
+        this.#broadcast("preview", { url, epoch });
+        signal.throwIfAborted();
+      }
+
+      await this.#renewLease(state.leaseId);
+
       this.#broadcast("status", {
-        step: "restoring",
-        message: "Restoring previous session…",
+        step: "agent",
+        message: "Agent is thinking…",
         epoch,
       });
 
-      const manifest = (await manifestObj.json()) as { files: string[] };
+      const model = this.#languageModel(modelId);
+      const images = await this.#loadImages(
+        epoch,
+        state.sessionId,
+        attachments,
+      );
+
+      this.#streamBuffer = { epoch, chunks: [] };
+      const messages: ModelMessage[] = [
+        ...buildTranscriptMessages(state.transcript),
+        buildAgentMessage(template, prompt, images),
+      ];
 
-      for (const filePath of manifest.files) {
-        const fileName = filePath.split("/").pop()!;
-        const fileObj = await this.env.DIFFS.get(
-          `sessions/${sessionId}/${fileName}`,
+      if (variants > 1) {
+        await this.#generateCandidates(
+          epoch,
+          template,
+          model,
+          messages,
+          tokens,
+          signal,
+          { prompt, modelId, options, startedAt },
         );
-        if (!fileObj) {
-          throw new Error(
-            `Missing R2 object: sessions/${sessionId}/${fileName}`,
-          );
-        }
-        const content = await fileObj.text();
-        await this.#withContainerRetry(
-          () => this.writeFile(filePath, content),
+        return;
+      }
+
+      const { staged, summary } = await this.#generateChanges(
+        epoch,
+        template,
+        model,
+        messages,
+        tokens,
+        signal,
+      );
+
+      this.#broadcast("status", {
+        step: "modify",
+        message: "Applying changes…",
+        epoch,
+      });
+      await this.#traced(epoch, "files.apply", (span) =>
+        this.#withContainerRetry(
+          () => applyStagedChanges(this, staged, signal),
           epoch,
+          signal,
+          span,
+        ),
+      );
+      // The files are live now; from here on the generation runs to completion.
+      generation.committed = true;
+
+      const screenshots = await this.#captureScreenshots(epoch, template);
+      if (screenshots && envNumber(this.env.VISUAL_CHECK, 0) > 0) {
+        addTokenUsage(
+          tokens,
+          await this.#checkVisually(
+            epoch,
+            model,
+            prompt,
+            summary,
+            screenshots.full,
+          ),
         );
       }
 
+      const usage = generationUsage(modelId, tokens, startedAt);
+      const committed = await this.#commitChanges({
+        epoch,
+        prompt,
+        modelId,
+        summary,
+        touched: staged.paths(),
+        options,
+        usage,
+        screenshots,
+      });
+      if (!committed) return;
+
+      await this.#recordGeneration(committed.sessionId, "done", usage);
+      if (generation.runtimeError) {
+        await this.#queueRuntimeFix(generation.runtimeError);
+      }
+    } catch (err) {
+      state = await this.#loadState();
+      if (!state || state.epoch !== epoch) return;
+
+      if (signal.aborted) {
+        state.stage = state.version > 0 ? "done" : "idle";
+        await this.#saveState(state);
+        this.#broadcast("cancelled", { epoch });
+        this.#broadcast("ready");
+        await this.#recordGeneration(
+          state.sessionId,
+          "cancelled",
+          generationUsage(modelId, tokens, startedAt),
+        );
+        return;
+      }
+
+      // With versions to show, "idle" would make the next `hello` restore the
+      // session over the running dev server.
+      state.stage = state.version > 0 ? "done" : "idle";
+      await this.#saveState(state);
+      this.#broadcast("error", {
+        message: String(err),
+        ...(err instanceof CompileError && {
+          code: "compile_failed",
+          diagnostics: err.diagnostics,
+        }),
+        epoch,
+      });
+      this.#broadcast("ready");
+      await this.#recordGeneration(
+        state.sessionId,
+        "failed",
+        generationUsage(modelId, tokens, startedAt),
+      );
+    } finally {
+      if (this.#streamBuffer?.epoch === epoch) {
+        this.#streamBuffer = null;
+      }
+      if (clientKey && tokens.totalTokens > 0) {
+        try {
+          const tracker = this.env.SessionTracker.get(
+            this.env.SessionTracker.idFromName("global"),
+          );
+          await tracker.recordTokens(clientKey, tokens.totalTokens);
+        } catch (err) {
+          console.error("Failed to record token usage:", err);
+        }
+      }
+      if (this.#generation?.epoch === epoch) {
+        this.#generation = null;
+      }
+    }
+  }
+
+  #languageModel(modelId: string): LanguageModel {
+    const aigateway = createAiGateway({
+      accountId: this.env.AI_GATEWAY_ACCOUNT_ID,
+      gateway: this.env.AI_GATEWAY_NAME,
+      apiKey: this.env.CF_AIG_TOKEN,
+    });
+    const unified = createUnified();
+    return aigateway(unified(modelId));
+  }
+
+  /**
+   * Runs the agent until its staged changes compile, repairing them up to
+   * MAX_REPAIR_ROUNDS times; throws CompileError if they never do. With a
+   * `variant`, its events are tagged so clients can tell candidates apart.
+   */
+  async #generateChanges(
+    epoch: number,
+    template: Template,
+    model: LanguageModel,
+    messages: ModelMessage[],
+    tokens: TokenUsage,
+    signal: AbortSignal,
+    variant?: number,
+  ): Promise<{ staged: StagedChanges; summary: string }> {
+    const tag = variant === undefined ? {} : { variant };
+    const staged = new StagedChanges(this);
+    const tools = createAgentTools(this, template, staged, {
+      onToolCall: (name, path) => {
+        this.#broadcast("tool", { tool: name, path, ...tag, epoch });
+      },
+    });
+    const detail = (round: number) =>
+      variant === undefined
+        ? `round ${round + 1}`
+        : `variant ${variant + 1}, round ${round + 1}`;
+    let summary = "";
+
+    for (let round = 0; ; round++) {
+      const turn = await this.#traced(
+        epoch,
+        "model",
+        () =>
+          this.#streamAgentTurn(epoch, model, messages, tools, signal, variant),
+        detail(round),
+      );
+      messages.push(...turn.messages);
+      summary = turn.text || summary;
+      addTokenUsage(tokens, turn.usage);
+
+      if (staged.size === 0) break;
+
       this.#broadcast("status", {
-        step: "server",
-        message: "Starting dev server…",
+        step: "check",
+        message: "Type-checking changes…",
+        epoch,
+      });
+      const check = await this.#traced(
+        epoch,
+        "check",
+        (span) =>
+          this.#withContainerRetry(
+            () => checkStagedChanges(this, template, staged, signal, variant),
+            epoch,
+            signal,
+            span,
+          ),
+        detail(round),
+      );
+      this.#broadcast("check", {
+        attempt: round + 1,
+        ok: check.ok,
+        diagnostics: check.diagnostics,
+        ...tag,
+        epoch,
+      });
+      if (check.ok) break;
+
+      if (round >= MAX_REPAIR_ROUNDS) {
+        throw new CompileError(check.diagnostics);
+      }
+      this.#broadcast("status", {
+        step: "repair",
+        message: `Fixing compile errors (round ${round + 1} of ${MAX_REPAIR_ROUNDS})…`,
         epoch,
       });
-      const server = await this.#withContainerRetry(
-        () => this.startProcess("npx vite --host", { cwd: PROJECT_DIR }),
+      messages.push({
+        role: "user",
+        content: buildRepairPrompt(check.diagnostics),
+      });
+    }
+
+    return { staged, summary };
+  }
+
+  /**
+   * Generates `options.variants` candidates side by side and leaves the
+   * session "choosing" between those that compiled. Nothing is applied
+   * until a client previews one; the generation's usage is recorded now.
+   */
+  async #generateCandidates(
+    epoch: number,
+    template: Template,
+    model: LanguageModel,
+    messages: ModelMessage[],
+    tokens: TokenUsage,
+    signal: AbortSignal,
+    request: {
+      prompt: string;
+      modelId: string;
+      options: GenerationOptions;
+      startedAt: number;
+    },
+  ): Promise<void> {
+    const { prompt, modelId, options, startedAt } = request;
+    const results = await Promise.allSettled(
+      Array.from({ length: options.variants ?? 1 }, (_, variant) =>
+        this.#generateChanges(
+          epoch,
+          template,
+          model,
+          [...messages],
+          tokens,
+          signal,
+          variant,
+        ),
+      ),
+    );
+    signal.throwIfAborted();
+
+    const candidates: StoredCandidate[] = results.map((result, index) => {
+      if (result.status === "rejected") {
+        return {
+          index,
+          ok: false,
+          summary: "",
+          files: [],
+          contents: {},
+          diagnostics:
+            result.reason instanceof CompileError
+              ? result.reason.diagnostics
+              : String(result.reason),
+        };
+      }
+      const { staged, summary } = result.value;
+      const contents: Record<string, string> = {};
+      for (const [path, content] of staged.entries()) {
+        contents[path.slice(template.dir.length + 1)] = content;
+      }
+      return {
+        index,
+        ok: true,
+        summary,
+        files: Object.keys(contents),
+        contents,
+      };
+    });
+    if (!candidates.some((c) => c.ok)) {
+      // Report it like a single failed generation would be.
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+
+    const base: Record<string, string | null> = {};
+    for (const path of new Set(candidates.flatMap((c) => c.files))) {
+      base[path] = await readIfExists(this, `${template.dir}/${path}`);
+    }
+    signal.throwIfAborted();
+
+    let state = await this.#loadState();
+    if (!state) return;
+    const { sessionId } = state;
+    const id = generateCandidateSetId();
+    await this.#traced(epoch, "r2.candidates", () =>
+      saveCandidates(this.env.DIFFS, sessionId, {
+        id,
+        epoch,
+        prompt,
+        model: modelId,
+        base,
+        candidates,
+      }),
+    );
+
+    state = await this.#loadState();
+    if (!state) return;
+    // A cancel accepted while the set was saved still wins.
+    signal.throwIfAborted();
+    const items = candidates.map(candidateInfo);
+    const usage = generationUsage(modelId, tokens, startedAt);
+    state.candidates = {
+      id,
+      epoch,
+      prompt,
+      model: modelId,
+      options,
+      items,
+      previewing: null,
+      usage,
+    };
+    state.stage = "choosing";
+    await this.#saveState(state);
+
+    this.#broadcast("candidates", { items, epoch });
+    await this.#recordGeneration(sessionId, "done", usage);
+  }
+
+  /**
+   * Makes a change the session's next version: snapshots the project,
+   * records the version and its diffs, persists the session and announces
+   * `done`. The change must already be applied. Returns the updated state,
+   * or undefined if the session went away meanwhile.
+   */
+  async #commitChanges(
+    commit: CommitRequest,
+  ): Promise<SessionState | undefined> {
+    const { epoch, prompt, modelId, summary, touched, options } = commit;
+    const { author, clientKey, runtimeFixes = 0, attachments = [] } = options;
+
+    // A generation from an epoch that has since been cancelled or torn down
+    // commits nothing, even if it got this far.
+    let state = await this.#loadState();
+    if (!state || state.epoch !== epoch) return undefined;
+    const template = getTemplate(state.template);
+    const modifiedFiles = [...new Set([...state.modifiedFiles, ...touched])];
+    const snapshot = await this.#traced(epoch, "files.snapshot", (span) =>
+      this.#withContainerRetry(
+        () => this.#snapshotFiles(template.dir, modifiedFiles),
+        epoch,
+        undefined,
+        span,
+      ),
+    );
+    const { sessionId, version: parent } = state;
+    const version = await this.#traced(epoch, "r2.version", () =>
+      recordVersion(
+        this.env.DIFFS,
+        sessionId,
+        {
+          parent,
+          prompt,
+          model: modelId,
+          ...(attachments.length > 0 && { attachments }),
+          ...(commit.candidates && { candidates: commit.candidates }),
+        },
+        snapshot,
+        commit.screenshots,
+      ),
+    );
+    await this.#traced(epoch, "diff", () =>
+      this.#recordDiffs(sessionId, template, version, snapshot, epoch),
+    );
+
+    state = await this.#loadState();
+    if (!state || state.epoch !== epoch) return undefined;
+    state.modifiedFiles = modifiedFiles;
+    state.version = version.version;
+    state.redo = [];
+    state.transcript.push({
+      prompt,
+      summary,
+      files: touched.map((p) => p.slice(template.dir.length + 1)),
+      version: version.version,
+      model: modelId,
+      createdAt: version.createdAt,
+      ...(author && { author }),
+      ...(attachments.length > 0 && { attachments }),
+    });
+    state.lastRun = {
+      epoch,
+      model: modelId,
+      ...(author && { author }),
+      ...(clientKey && { clientKey }),
+      runtimeFixes,
+    };
+    state.candidates = undefined;
+    state.stage = "done";
+    await this.#saveState(state);
+
+    const persisted = state;
+    await this.#traced(epoch, "r2.persist", () => this.#persistToR2(persisted));
+    await this.#renewLease(state.leaseId);
+
+    this.#broadcast("done", {
+      sessionId: state.sessionId,
+      url: state.previewUrl,
+      summary,
+      files: touched,
+      version: version.version,
+      model: modelId,
+      ...(author && { author }),
+      usage: commit.usage,
+      ...(version.thumbnailUrl && { thumbnailUrl: version.thumbnailUrl }),
+      epoch,
+    });
+    await this.#broadcastHistory(state);
+    return state;
+  }
+
+  /**
+   * Hot-swaps candidate `index` into the live project (or, with null, puts
+   * back what was there before any of them), and Vite reloads the preview.
+   */
+  async #showCandidate(index: number | null): Promise<void> {
+    let state = await this.#loadState();
+    const pending = state?.candidates;
+    if (!state || !pending || pending.previewing === index) return;
+
+    const { sessionId } = state;
+    const { dir } = getTemplate(state.template);
+    const set = await loadCandidates(this.env.DIFFS, sessionId, pending.id);
+    if (!set) throw new Error("The candidates are no longer stored");
+    await this.#traced(pending.epoch, "candidate.swap", (span) =>
+      this.#withContainerRetry(
+        () => writeOverlay(this, candidateOverlay(set, index, dir)),
+        pending.epoch,
+        undefined,
+        span,
+      ),
+    );
+
+    state = await this.#loadState();
+    if (!state?.candidates) return;
+    state.candidates.previewing = index;
+    await this.#saveState(state);
+    this.#broadcast("candidate_preview", { index, epoch: pending.epoch });
+  }
+
+  async #streamAgentTurn(
+    epoch: number,
+    model: LanguageModel,
+    messages: ModelMessage[],
+    tools: ToolSet,
+    signal: AbortSignal,
+    variant?: number,
+  ): Promise<{ text: string; messages: ModelMessage[]; usage: TokenUsage }> {
+    const emit = (chunk: StreamChunk) =>
+      this.#emitDelta(
+        epoch,
+        variant === undefined ? chunk : { ...chunk, variant },
+      );
+    const result = streamText({
+      model,
+      messages,
+      tools,
+      stopWhen: stepCountIs(MAX_AGENT_STEPS),
+      abortSignal: signal,
+    });
+
+    const toolNames = new Map<string, string>();
+    for await (const part of result.fullStream) {
+      switch (part.type) {
+        case "text-delta":
+          emit({ kind: "text", text: part.text });
+          break;
+        case "reasoning-delta":
+          emit({ kind: "reasoning", text: part.text });
+          break;
+        case "tool-input-start":
+          toolNames.set(part.id, part.toolName);
+          break;
+        case "tool-input-delta":
+          emit({
+            kind: "tool-input",
+            text: part.delta,
+            toolCallId: part.id,
+            toolName: toolNames.get(part.id),
+          });
+          break;
+        case "error":
+          throw part.error;
+      }
+    }
+    signal.throwIfAborted();
+
+    const usage = await result.totalUsage;
+    return {
+      text: await result.text,
+      messages: (await result.response).messages,
+      usage: {
+        inputTokens: usage.inputTokens ?? 0,
+        outputTokens: usage.outputTokens ?? 0,
+        totalTokens: usage.totalTokens ?? 0,
+      },
+    };
+  }
+
+  async #loadImages(
+    epoch: number,
+    sessionId: string,
+    attachments: Attachment[],
+  ): Promise<ImageInput[]> {
+    if (attachments.length === 0) return [];
+    return this.#traced(epoch, "r2.attachments", async () => {
+      const images: ImageInput[] = [];
+      for (const attachment of attachments) {
+        images.push({
+          bytes: await loadAttachment(this.env.DIFFS, sessionId, attachment),
+          mediaType: attachment.mediaType,
+        });
+      }
+      return images;
+    });
+  }
+
+  /** Best effort: a generation isn't failed for want of a screenshot. */
+  async #captureScreenshots(
+    epoch: number,
+    template: Template,
+  ): Promise<Screenshots | undefined> {
+    this.#broadcast("status", {
+      step: "screenshot",
+      message: "Capturing the preview…",
+      epoch,
+    });
+    try {
+      return await this.#traced(epoch, "screenshot", () =>
+        captureScreenshots(this, `http://localhost:${template.port}/`),
+      );
+    } catch (err) {
+      console.error("Screenshot failed:", err);
+      return undefined;
+    }
+  }
+
+  /**
+   * Shows the model a screenshot of its result and broadcasts whether it
+   * thinks the request was met. Informational only; nothing is rolled back.
+   */
+  async #checkVisually(
+    epoch: number,
+    model: LanguageModel,
+    prompt: string,
+    summary: string,
+    screenshot: Uint8Array,
+  ): Promise<TokenUsage> {
+    this.#broadcast("status", {
+      step: "visual_check",
+      message: "Checking the result visually…",
+      epoch,
+    });
+    try {
+      const result = await this.#traced(epoch, "visual.check", () =>
+        generateText({
+          model,
+          messages: buildVisualCheckMessages(prompt, summary, screenshot),
+        }),
+      );
+      this.#broadcast("visual_check", {
+        ...parseVisualCheck(result.text),
+        epoch,
+      });
+      return {
+        inputTokens: result.totalUsage.inputTokens ?? 0,
+        outputTokens: result.totalUsage.outputTokens ?? 0,
+        totalTokens: result.totalUsage.totalTokens ?? 0,
+      };
+    } catch (err) {
+      console.error("Visual check failed:", err);
+      return emptyTokenUsage();
+    }
+  }
+
+  async #restoreSession(
+    manifestObj: R2ObjectBody,
+    epoch: number,
+    sessionId: string,
+  ): Promise<void> {
+    try {
+      this.#broadcast("status", {
+        step: "restoring",
+        message: "Restoring previous session…",
         epoch,
+      });
+
+      const saved = await this.#traced(epoch, "r2.load", () =>
+        loadSessionFiles(this.env.DIFFS, sessionId, manifestObj),
       );
-      await server.waitForPort(VITE_PORT, { mode: "tcp" });
 
+      // The manifest knows the template even if this socket didn't ask.
       let state = await this.#loadState();
       if (!state) return;
+      const template = getTemplate(saved.template);
+      state.template = template.id;
+      await this.#saveState(state);
+
+      const staged = new StagedChanges(this);
+      for (const [path, content] of saved.files) {
+        staged.write(`${template.dir}/${path}`, content);
+      }
+      await this.#traced(epoch, "files.apply", (span) =>
+        this.#withContainerRetry(
+          () => applyStagedChanges(this, staged),
+          epoch,
+          undefined,
+          span,
+        ),
+      );
+
+      this.#broadcast("status", {
+        step: "server",
+        message: "Starting dev server…",
+        epoch,
+      });
+      state = await this.#loadState();
+      if (!state) return;
 
-      const exposed = await this.#ensurePortExposed(
-        VITE_PORT,
+      const url = await this.#startDevServer(
+        epoch,
+        template,
         state.hostname,
-        state.sessionId,
+        sessionId,
       );
 
       state = await this.#loadState();
       if (!state) return;
-      state.previewUrl = exposed.url;
-      state.modifiedFiles = manifest.files;
+      state.previewUrl = url;
+      state.modifiedFiles = staged.paths();
+      state.version = saved.version;
+      state.redo = saved.redo;
+      state.transcript = saved.transcript;
       state.stage = "done";
       await this.#saveState(state);
 
-      this.#broadcast("preview", { url: exposed.url, epoch });
+      this.#broadcast("preview", { url, epoch });
       await this.#renewLease(state.leaseId);
 
       this.#broadcast("restored", {
         sessionId: state.sessionId,
-        url: exposed.url,
+        url,
+        transcript: state.transcript,
         epoch,
       });
       this.#broadcast("ready");
     } catch (err) {
       const state = await this.#loadState();
       if (!state) return;
-      state.stage = "idle";
+      state.stage = state.version > 0 ? "done" : "idle";
+      await this.#saveState(state);
+      this.#broadcast("error", {
+        message: `Restore failed: ${String(err)}`,
+        epoch,
+      });
+      this.#broadcast("ready");
+    }
+
+    // Prompts sent while restoring were queued; run them now.
+    await this.#drainQueue();
+  }
+
+  async #restoreVersion(
+    versions: VersionMeta[],
+    target: number,
+    redo: number[],
+  ): Promise<void> {
+    let state = await this.#loadState();
+    if (!state) return;
+
+    state.stage = "restoring";
+    state.epoch += 1;
+    await this.#saveState(state);
+    const epoch = state.epoch;
+    const sessionId = state.sessionId;
+
+    try {
+      this.#broadcast("status", {
+        step: "restoring",
+        message:
+          target === 0
+            ? "Restoring the original app…"
+            : `Restoring version ${target}…`,
+        epoch,
+      });
+
+      const meta = versions.find((v) => v.version === target);
+      const files = meta
+        ? await loadVersionFiles(this.env.DIFFS, sessionId, meta)
+        : new Map<string, string>();
+
+      const { dir } = getTemplate(state.template);
+      const staged = new StagedChanges(this);
+      for (const [path, content] of files) {
+        staged.write(`${dir}/${path}`, content);
+      }
+      const targetPaths = staged.paths();
+      const stale = state.modifiedFiles.filter((p) => !targetPaths.includes(p));
+
+      await this.#withContainerRetry(
+        () => resetToBaseline(this, dir, stale),
+        epoch,
+      );
+      await this.#withContainerRetry(
+        () => applyStagedChanges(this, staged),
+        epoch,
+      );
+
+      state = await this.#loadState();
+      if (!state) return;
+      state.modifiedFiles = targetPaths;
+      state.version = target;
+      state.redo = redo;
+      state.stage = "done";
+      await this.#saveState(state);
+
+      await this.#persistToR2(state);
+
+      this.#broadcast("reverted", { version: target, epoch });
+      await this.#broadcastHistory(state, versions);
+      await this.#broadcastDiff(sessionId, target, epoch);
+      this.#broadcast("ready");
+    } catch (err) {
+      state = await this.#loadState();
+      if (!state) return;
+      state.stage = state.version > 0 ? "done" : "idle";
       await this.#saveState(state);
       this.#broadcast("error", {
         message: `Restore failed: ${String(err)}`,
@@ -485,6 +1970,8 @@ export class Sandbox extends BaseSandbox<Env> {
       });
       this.#broadcast("ready");
     }
+
+    await this.#drainQueue();
   }
 
   // ── State management ──────────────────────────────────────────────
@@ -497,59 +1984,522 @@ export class Sandbox extends BaseSandbox<Env> {
     await this.ctx.storage.put(SESSION_STATE_KEY, state);
   }
 
+  /**
+   * Ends this lifetime of the session. Its last epoch is kept: the event log
+   * and timeline are keyed by epoch and outlive the state, so a recreated
+   * session must not number its epochs from zero again.
+   */
+  async #deleteState(): Promise<void> {
+    const state = await this.#loadState();
+    if (state) await this.ctx.storage.put(LAST_EPOCH_KEY, state.epoch);
+    await this.ctx.storage.delete(SESSION_STATE_KEY);
+  }
+
+  /** The epoch a newly created session state starts at. */
+  async #nextEpoch(): Promise<number> {
+    const last = await this.ctx.storage.get<number>(LAST_EPOCH_KEY);
+    return last === undefined ? 0 : last + 1;
+  }
+
   // ── Broadcast / Send ──────────────────────────────────────────────
 
-  #broadcast(type: string, data: Record<string, unknown> = {}): void {
-    const msg = JSON.stringify({ type, ...data });
+  /** Everyone connected, optionally leaving out a socket that is closing. */
+  #presence(exclude?: WebSocket): Presence[] {
+    const clients: Presence[] = [];
+    for (const ws of this.ctx.getWebSockets()) {
+      if (ws === exclude) continue;
+      const att = ws.deserializeAttachment() as WsAttachment | null;
+      if (!att) continue;
+      clients.push({
+        clientId: att.socketId,
+        role: att.role,
+        ...(att.name && { name: att.name }),
+      });
+    }
+    return clients;
+  }
+
+  /**
+   * Hands the owner's role to whichever of `sockets` has collaborated
+   * longest, so owner-only decisions always have someone to make them.
+   */
+  #promoteOwner(sockets: WebSocket[]): void {
+    let next: { ws: WebSocket; att: WsAttachment } | undefined;
+    for (const ws of sockets) {
+      const att = ws.deserializeAttachment() as WsAttachment | null;
+      if (att?.role !== "collaborator") continue;
+      if (!next || att.connectedAt < next.att.connectedAt) next = { ws, att };
+    }
+    if (!next) return;
+
+    next.att.role = "owner";
+    next.ws.serializeAttachment(next.att);
+  }
+
+  #broadcast<T extends ServerMessageType>(
+    type: T,
+    ...[data]: PayloadArgs<T>
+  ): void {
+    // Keep the feed in order: model output so far goes out first.
+    if (type !== "delta") this.#flushDeltas();
+
+    const payload = JSON.stringify({ type, ...data });
+    const seq = this.#events().append(
+      type,
+      payload,
+      (data as { epoch?: number } | undefined)?.epoch,
+    );
+    const msg = withSeq(payload, seq);
+
     for (const ws of this.ctx.getWebSockets()) {
+      if (!understands(ws, type)) continue;
       try {
         ws.send(msg);
       } catch {}
     }
+    for (const writer of this.#eventStreams) {
+      this.#writeEvent(writer, type, msg, seq);
+    }
+  }
+
+  #writeEvent(
+    writer: WritableStreamDefaultWriter<Uint8Array>,
+    type: ServerMessageType,
+    msg: string,
+    seq?: number,
+  ): void {
+    const id = seq === undefined ? "" : `id: ${seq}\n`;
+    const frame = `${id}event: ${type}\ndata: ${msg}\n\n`;
+    writer.write(new TextEncoder().encode(frame)).catch(() => {
+      // Client went away; the generation carries on without it.
+      this.#eventStreams.delete(writer);
+    });
+  }
+
+  #events(): EventLog {
+    this.#eventLog ??= new EventLog(this.ctx.storage.sql);
+    return this.#eventLog;
+  }
+
+  #timeline(): Timeline {
+    this.#timelineStore ??= new Timeline(this.ctx.storage.sql);
+    return this.#timelineStore;
   }
 
-  #send(ws: WebSocket, type: string, data: Record<string, unknown> = {}): void {
+  async #broadcastHistory(
+    state: SessionState,
+    versions?: VersionMeta[],
+  ): Promise<void> {
+    versions ??= await loadHistory(this.env.DIFFS, state.sessionId);
+    this.#broadcast("history", historyPayload(state, versions));
+  }
+
+  #send<T extends ServerMessageType>(
+    ws: WebSocket,
+    type: T,
+    ...[data]: PayloadArgs<T>
+  ): void {
+    if (!understands(ws, type)) return;
     try {
       ws.send(JSON.stringify({ type, ...data }));
     } catch {}
   }
 
+  /** Clients before protocol 3 don't know `quota_exceeded`; they get an error. */
+  #sendQuotaExceeded(ws: WebSocket, exceeded: QuotaExceeded): void {
+    if (understands(ws, "quota_exceeded")) {
+      this.#send(ws, "quota_exceeded", exceeded);
+      return;
+    }
+    this.#send(ws, "error", {
+      message: `Quota exceeded: ${exceeded.used} of ${exceeded.limit} ${exceeded.quota} used, resets at ${new Date(exceeded.resetAt).toISOString()}`,
+      code: "quota_exceeded",
+    });
+  }
+
+  #emitDelta(epoch: number, chunk: StreamChunk): void {
+    if (!chunk.text) return;
+
+    if (this.#streamBuffer) appendChunk(this.#streamBuffer.chunks, chunk);
+
+    if (this.#pendingDeltas && this.#pendingDeltas.epoch !== epoch) {
+      this.#flushDeltas();
+    }
+    this.#pendingDeltas ??= { epoch, chunks: [] };
+    appendChunk(this.#pendingDeltas.chunks, chunk);
+    this.#deltaFlush ??= setTimeout(() => this.#flushDeltas(), DELTA_FLUSH_MS);
+  }
+
+  #flushDeltas(): void {
+    if (this.#deltaFlush) clearTimeout(this.#deltaFlush);
+    this.#deltaFlush = null;
+    const pending = this.#pendingDeltas;
+    this.#pendingDeltas = null;
+    for (const chunk of pending?.chunks ?? []) {
+      this.#broadcast("delta", { ...chunk, epoch: pending!.epoch });
+    }
+  }
+
   // ── R2 persistence ────────────────────────────────────────────────
 
   async #persistToR2(state: SessionState): Promise<void> {
-    if (state.modifiedFiles.length === 0) return;
+    if (
+      state.modifiedFiles.length === 0 &&
+      state.redo.length === 0 &&
+      state.transcript.length === 0
+    ) {
+      // Nothing worth restoring; drop any stale manifest.
+      try {
+        await this.env.DIFFS.delete(manifestKey(state.sessionId));
+      } catch {}
+      return;
+    }
 
     try {
-      await this.env.DIFFS.put(
-        `sessions/${state.sessionId}/manifest.json`,
-        JSON.stringify({ files: state.modifiedFiles }),
+      const template = getTemplate(state.template);
+      const files = await this.#snapshotFiles(
+        template.dir,
+        state.modifiedFiles,
       );
+      await saveSessionFiles(this.env.DIFFS, state.sessionId, files, {
+        template: template.id,
+        version: state.version,
+        redo: state.redo,
+        transcript: state.transcript,
+      });
+    } catch (err) {
+      console.error("Failed to persist to R2:", err);
+    }
+  }
 
-      for (const filePath of state.modifiedFiles) {
-        const file = await this.readFile(filePath);
-        const fileName = filePath.split("/").pop()!;
-        await this.env.DIFFS.put(
-          `sessions/${state.sessionId}/${fileName}`,
-          file.content,
+  async #snapshotFiles(
+    projectDir: string,
+    paths: string[],
+  ): Promise<Map<string, string>> {
+    const files = new Map<string, string>();
+    for (const path of paths) {
+      const file = await this.readFile(path);
+      files.set(path.slice(projectDir.length + 1), file.content);
+    }
+    return files;
+  }
+
+  // ── Diffs ─────────────────────────────────────────────────────────
+
+  async #recordDiffs(
+    sessionId: string,
+    template: Template,
+    version: VersionMeta,
+    snapshot: Map<string, string>,
+    epoch: number,
+  ): Promise<void> {
+    try {
+      const versions = await loadHistory(this.env.DIFFS, sessionId);
+      const parent = versions.find((v) => v.version === version.parent);
+      const previous = parent
+        ? await loadVersionFiles(this.env.DIFFS, sessionId, parent)
+        : new Map<string, string>();
+
+      const diffs = await this.#withContainerRetry(
+        async () => ({
+          baseline: await diffSnapshots(this, template, new Map(), snapshot),
+          previous: await diffSnapshots(this, template, previous, snapshot),
+        }),
+        epoch,
+      );
+      await saveDiffs(this.env.DIFFS, sessionId, version.version, diffs);
+
+      this.#broadcast("diff", { version: version.version, ...diffs, epoch });
+    } catch (err) {
+      console.error("Failed to record diffs:", err);
+    }
+  }
+
+  async #broadcastDiff(
+    sessionId: string,
+    version: number,
+    epoch: number,
+  ): Promise<void> {
+    const [baseline, previous] = await Promise.all([
+      loadDiff(this.env.DIFFS, sessionId, version, "baseline"),
+      loadDiff(this.env.DIFFS, sessionId, version, "previous"),
+    ]);
+    if (baseline === null || previous === null) return;
+    this.#broadcast("diff", { version, baseline, previous, epoch });
+  }
+
+  // ── Dev server ────────────────────────────────────────────────────
+
+  /**
+   * Starts Vite, waits for it to listen and exposes its port. The process is
+   * then watched in the background so a crash is noticed and recovered from.
+   */
+  async #startDevServer(
+    epoch: number,
+    template: Template,
+    hostname: string,
+    sessionId: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const server = await this.#traced(epoch, "vite.start", (span) =>
+      this.#withContainerRetry(
+        async () => {
+          // Written every time: the container may be fresh.
+          await this.mkdir(`${template.dir}/${REPORTER_DIR}`, {
+            recursive: true,
+          });
+          await this.writeFile(
+            `${template.dir}/${REPORTER_CONFIG_PATH}`,
+            reporterConfig(crypto.randomUUID()),
+          );
+          return this.startProcess(devServerCommand(template), {
+            cwd: template.dir,
+          });
+        },
+        epoch,
+        signal,
+        span,
+      ),
+    );
+    let url: string;
+    try {
+      await this.#traced(epoch, "vite.port", () =>
+        server.waitForPort(template.port, { mode: "tcp" }),
+      );
+      const exposed = await this.#traced(epoch, "preview.expose", () =>
+        this.#ensurePortExposed(template.port, hostname, sessionId),
+      );
+      url = exposed.url;
+    } catch (err) {
+      // Left running, a half-started server would hold the port.
+      await server.kill().catch(() => {});
+      throw err;
+    }
+
+    this.#supervise(server.id);
+    return url;
+  }
+
+  /** Finds a Vite process nobody is watching and supervises it. */
+  async #adoptDevServer(template: Template): Promise<boolean> {
+    const command = devServerCommand(template);
+    const processes = await this.listProcesses().catch(() => []);
+    const server = processes.find(
+      (p) => p.command === command && p.status === "running",
+    );
+    if (!server) return false;
+    // Its earlier output was sent before the eviction; don't repeat it.
+    this.#supervise(server.id, new Date().toISOString());
+    return true;
+  }
+
+  #supervise(processId: string, since?: string): void {
+    this.#devServer?.controller.abort();
+    const controller = new AbortController();
+    this.#devServer = { processId, controller };
+    this.ctx.waitUntil(
+      this.#watchDevServer(processId, controller.signal, since),
+    );
+  }
+
+  /**
+   * Forwards the server's output as `log` broadcasts until it exits, then
+   * restarts it. A log stream that drops while the process is still running
+   * is resumed after the last line already sent.
+   */
+  async #watchDevServer(
+    processId: string,
+    signal: AbortSignal,
+    since?: string,
+  ): Promise<void> {
+    let exitCode: number | undefined;
+
+    for (;;) {
+      let exited = false;
+      try {
+        const stream = await this.streamProcessLogs(processId, { signal });
+        for await (const event of parseSSEStream<LogEvent>(stream, signal)) {
+          if (since && event.timestamp <= since) continue;
+          since = event.timestamp;
+          if (event.type === "stdout") {
+            const { reports, output } = extractRuntimeErrors(event.data);
+            if (output.trim()) {
+              this.#broadcast("log", { stream: "stdout", text: output });
+            }
+            for (const report of reports) {
+              await this.#handleRuntimeError(report);
+            }
+          } else if (event.type === "stderr") {
+            this.#broadcast("log", { stream: "stderr", text: event.data });
+          } else if (event.type === "exit") {
+            exitCode = event.exitCode;
+            exited = true;
+            break;
+          }
+        }
+      } catch (err) {
+        if (!signal.aborted) console.error("Dev server log stream:", err);
+      }
+      if (signal.aborted || this.#stopping) return;
+      if (exited) break;
+
+      const server = await this.getProcess(processId).catch(() => null);
+      if (server?.status !== "running") {
+        exitCode = server?.exitCode;
+        break;
+      }
+    }
+
+    this.#devServer = null;
+    this.#devServerRestart = this.#restartDevServer(exitCode).finally(() => {
+      this.#devServerRestart = null;
+    });
+    await this.#devServerRestart;
+  }
+
+  /**
+   * Forwards a browser error to clients and, unless it was only logged,
+   * tries to queue a fix-up for it.
+   */
+  async #handleRuntimeError(report: RuntimeErrorReport): Promise<void> {
+    const state = await this.#loadState();
+    if (!state) return;
+    this.#broadcast("runtime_error", { ...report, epoch: state.epoch });
+    if (report.kind === "console") return;
+
+    // Pages reload as soon as a generation's files are applied, so its
+    // errors can arrive before it has finished. Keep the first for then.
+    const generation = this.#generation;
+    if (generation?.committed && generation.epoch === state.epoch) {
+      generation.runtimeError ??= report;
+      return;
+    }
+    await this.#queueRuntimeFix(report);
+  }
+
+  /**
+   * Queues a fix-up on behalf of the author of the latest generation, if
+   * that is what the running code came from. RUNTIME_FIX_ATTEMPTS caps how
+   * many fix-ups can follow one another.
+   */
+  async #queueRuntimeFix(report: RuntimeErrorReport): Promise<void> {
+    const state = await this.#loadState();
+    if (!state) return;
+
+    const run = state.lastRun;
+    if (
+      !run?.author ||
+      run.epoch !== state.epoch ||
+      run.runtimeFixes >= envNumber(this.env.RUNTIME_FIX_ATTEMPTS, 0) ||
+      state.stage !== "done" ||
+      state.queue.length > 0
+    ) {
+      return;
+    }
+
+    // One fix per generation, however many errors it goes on to throw.
+    state.lastRun = undefined;
+    await this.#saveState(state);
+    if (run.clientKey && (await this.#consumeGeneration(run.clientKey))) {
+      return;
+    }
+
+    const current = await this.#loadState();
+    if (!current) return;
+    current.queue.push({
+      id: generateSocketId(),
+      prompt: buildRuntimeFixPrompt(report),
+      model: run.model,
+      author: run.author,
+      queuedAt: Date.now(),
+      clientKey: run.clientKey,
+      runtimeFixes: run.runtimeFixes + 1,
+    });
+    await this.#saveState(current);
+    this.#broadcast("queue", { items: queueItems(current) });
+    this.ctx.waitUntil(this.#drainQueue());
+  }
+
+  /**
+   * Brings a crashed server back with exponential backoff. If every attempt
+   * fails the preview stays down and the next generation starts it afresh.
+   */
+  async #restartDevServer(exitCode?: number): Promise<void> {
+    let state = await this.#loadState();
+    if (!state) return;
+    state.previewUrl = undefined;
+    await this.#saveState(state);
+    const { epoch, hostname, sessionId } = state;
+    const template = getTemplate(state.template);
+
+    for (let attempt = 0; attempt < MAX_DEV_SERVER_RESTARTS; attempt++) {
+      const restartInMs = DEV_SERVER_RESTART_DELAY_MS * 2 ** attempt;
+      this.#broadcast("preview_down", {
+        ...(exitCode !== undefined && { exitCode }),
+        restartInMs,
+      });
+      await new Promise((r) => setTimeout(r, restartInMs));
+      if (this.#stopping || !(await this.#loadState())) return;
+
+      try {
+        const url = await this.#startDevServer(
+          epoch,
+          template,
+          hostname,
+          sessionId,
         );
+        state = await this.#loadState();
+        if (!state) return;
+        state.previewUrl = url;
+        await this.#saveState(state);
+        this.#broadcast("preview_up", { url });
+        return;
+      } catch (err) {
+        console.error("Dev server restart failed:", err);
+        exitCode = undefined;
       }
-    } catch (err) {
-      console.error("Failed to persist to R2:", err);
     }
+
+    this.#broadcast("error", {
+      message: `Dev server stopped and could not be restarted after ${MAX_DEV_SERVER_RESTARTS} attempts`,
+    });
   }
 
   // ── Container helpers ─────────────────────────────────────────────
 
+  /** Runs `fn` as a timed step of the epoch's timeline. */
+  async #traced<T>(
+    epoch: number,
+    name: string,
+    fn: (span: Span) => Promise<T>,
+    detail?: string,
+  ): Promise<T> {
+    const span = this.#timeline().start(epoch, name, detail);
+    try {
+      const result = await fn(span);
+      span.end("ok");
+      return result;
+    } catch (err) {
+      const aborted = err instanceof Error && err.name === "AbortError";
+      span.end(aborted ? "aborted" : "error", err);
+      throw err;
+    }
+  }
+
   async #withContainerRetry<T>(
     fn: () => Promise<T>,
     epoch?: number,
+    signal?: AbortSignal,
+    span?: Span,
     attempts = 5,
   ): Promise<T> {
     for (let i = 0; i < attempts; i++) {
+      signal?.throwIfAborted();
+      if (span) span.attempts = i + 1;
       try {
         return await fn();
       } catch (err) {
-        if (i === attempts - 1) throw err;
+        if (i === attempts - 1 || signal?.aborted) throw err;
         this.#broadcast("status", {
           step: "server",
           message: `Waiting for container… (attempt ${i + 2})`,
@@ -579,6 +2529,21 @@ export class Sandbox extends BaseSandbox<Env> {
 
   // ── Lease management ──────────────────────────────────────────────
 
+  async #recordGeneration(
+    sessionId: string,
+    outcome: GenerationOutcome,
+    usage: GenerationUsage,
+  ): Promise<void> {
+    try {
+      const tracker = this.env.SessionTracker.get(
+        this.env.SessionTracker.idFromName("global"),
+      );
+      await tracker.recordGeneration(sessionId, outcome, usage);
+    } catch (err) {
+      console.error("Failed to record generation:", err);
+    }
+  }
+
   async #renewLease(leaseId: string): Promise<void> {
     try {
       const tracker = this.env.SessionTracker.get(
@@ -593,8 +2558,12 @@ export class Sandbox extends BaseSandbox<Env> {
   // ── Cleanup ──────────────────────────────────────────────────────��
 
   async #finalizeAndDestroy(state: SessionState): Promise<void> {
+    // Whatever is still generating belongs to this lifetime of the session.
+    this.#generation?.controller.abort();
     await this.ctx.blockConcurrencyWhile(async () => {
       try {
+        // The working copy is the last committed version, not a candidate.
+        if (state.candidates) await this.#showCandidate(null);
         await this.#persistToR2(state);
       } catch {}
 
@@ -606,45 +2575,78 @@ export class Sandbox extends BaseSandbox<Env> {
       } catch {}
 
       await this.ctx.storage.deleteAlarm();
-      await this.ctx.storage.delete(SESSION_STATE_KEY);
+      await this.#deleteState();
     });
   }
 }
 
-function buildLLMPrompt(
-  userPrompt: string,
-  appCode: string,
-  gooseCode: string,
-  cssCode: string,
-): string {
-  return `You are modifying a React app. The app renders a pixel art goose on a pond background.
-
-Here are the current source files:
-
-=== src/App.tsx ===
-${appCode}
+function historyPayload(
+  state: SessionState,
+  versions: VersionMeta[],
+): ServerPayload<"history"> {
+  return {
+    versions,
+    current: state.version,
+    canUndo: state.version !== 0,
+    canRedo: state.redo.length > 0,
+  };
+}
 
-=== src/PixelGoose.tsx (DO NOT MODIFY — read-only reference) ===
-${gooseCode}
+function newSessionState(
+  sessionId: string,
+  leaseId: string,
+  hostname: string,
+  epoch: number,
+  template?: string,
+): SessionState {
+  return {
+    sessionId,
+    leaseId,
+    hostname,
+    ...(template && { template }),
+    stage: "idle",
+    epoch,
+    modifiedFiles: [],
+    version: 0,
+    redo: [],
+    transcript: [],
+    queue: [],
+  };
+}
 
-=== src/index.css (DO NOT MODIFY — read-only reference) ===
-${cssCode}
+/** Vite as the template starts it, wrapped in the runtime error reporter. */
+function devServerCommand(template: Template): string {
+  return `${template.devCommand} --config ${REPORTER_CONFIG_PATH}`;
+}
 
-The user wants you to: ${userPrompt}
+/**
+ * Adds `chunk` to `chunks`, merged into its variant's latest chunk if it
+ * continues it. Variants stream side by side; each keeps its own order.
+ */
+function appendChunk(chunks: StreamChunk[], chunk: StreamChunk): void {
+  const last = chunks.findLast((c) => c.variant === chunk.variant);
+  if (
+    last &&
+    last.kind === chunk.kind &&
+    last.toolCallId === chunk.toolCallId &&
+    last.variant === chunk.variant
+  ) {
+    last.text += chunk.text;
+  } else {
+    chunks.push({ ...chunk });
+  }
+}
 
-RULES:
-- ONLY modify App.tsx. Do NOT modify PixelGoose.tsx or index.css.
-- The PixelGoose component accepts these props: size, direction ("left" | "right"), className, style.
-- Return ONLY the complete modified App.tsx file contents.
-- Do NOT include markdown fences, explanations, or anything other than the raw TypeScript/JSX code.
-- The code must be valid TypeScript JSX that compiles without errors.
-- Import React hooks if you use them.`;
+function queueItems(state: SessionState): QueuedPrompt[] {
+  return state.queue.map(({ clientKey: _, runtimeFixes: __, ...item }) => item);
 }
 
-function extractCode(response: string): string {
-  const fenceMatch = response.match(/```(?:tsx?|jsx?)?\s*\n([\s\S]*?)```/);
-  if (fenceMatch) {
-    return fenceMatch[1].trim();
-  }
-  return response.trim();
+type PayloadArgs<T extends ServerMessageType> =
+  {} extends ServerPayload<T>
+    ? [data?: ServerPayload<T>]
+    : [data: ServerPayload<T>];
+
+function understands(ws: WebSocket, type: ServerMessageType): boolean {
+  const att = ws.deserializeAttachment() as WsAttachment | null;
+  return (att?.protocol ?? MIN_PROTOCOL_VERSION) >= MESSAGE_SINCE[type];
 }
@@ -0,0 +1,66 @@
+import type { ScreenshotSize } from "./history";
+import type { ProjectFs } from "./workspace";
+
+const SCREENSHOT_DIR = "/tmp/goose-pond-screenshot";
+// chrome-headless-shell, installed by the Dockerfile.
+const BROWSER = "headless-shell";
+const VIEWPORT = { width: 1280, height: 800 };
+const THUMBNAIL_SCALE = 0.25;
+// Virtual time the page gets to load and render before the shot is taken.
+const RENDER_BUDGET_MS = 3_000;
+const SCREENSHOT_TIMEOUT_MS = 30_000;
+
+export type Screenshots = Record<ScreenshotSize, Uint8Array>;
+
+/** The Sandbox API calls needed to take and read back a screenshot. */
+export interface ScreenshotFs extends Pick<ProjectFs, "exec"> {
+  readFile(
+    path: string,
+    options: { encoding: "base64" },
+  ): Promise<{ content: string }>;
+}
+
+/**
+ * Renders `url` in headless Chromium inside the container, once at full size
+ * and once scaled down for a thumbnail, and returns both PNGs.
+ */
+export async function captureScreenshots(
+  fs: ScreenshotFs,
+  url: string,
+  signal?: AbortSignal,
+): Promise<Screenshots> {
+  const shot = (size: ScreenshotSize, scale: number) =>
+    [
+      BROWSER,
+      "--no-sandbox",
+      "--hide-scrollbars",
+      `--window-size=${VIEWPORT.width},${VIEWPORT.height}`,
+      `--force-device-scale-factor=${scale}`,
+      `--virtual-time-budget=${RENDER_BUDGET_MS}`,
+      `--screenshot=${SCREENSHOT_DIR}/${size}.png`,
+      url,
+    ].join(" ");
+
+  const result = await fs.exec(
+    [
+      `rm -rf ${SCREENSHOT_DIR}`,
+      `mkdir -p ${SCREENSHOT_DIR}`,
+      shot("full", 1),
+      shot("thumbnail", THUMBNAIL_SCALE),
+    ].join(" && "),
+    { timeout: SCREENSHOT_TIMEOUT_MS, signal },
+  );
+  if (result.exitCode !== 0) {
+    throw new Error(`Screenshot failed: ${result.stderr.trim().slice(-500)}`);
+  }
+
+  return {
+    full: await readPng(fs, `${SCREENSHOT_DIR}/full.png`),
+    thumbnail: await readPng(fs, `${SCREENSHOT_DIR}/thumbnail.png`),
+  };
+}
+
+async function readPng(fs: ScreenshotFs, path: string): Promise<Uint8Array> {
+  const { content } = await fs.readFile(path, { encoding: "base64" });
+  return Uint8Array.from(atob(content), (c) => c.charCodeAt(0));
+}
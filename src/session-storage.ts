@@ -0,0 +1,141 @@
+/**
+ * The working copy of a session in R2, used to restore it into a fresh
+ * container. Blobs are content-addressed, so a manifest only ever points at
+ * objects that were fully uploaded before it was published:
+ *
+ *   sessions/<id>/manifest.json        SessionManifest
+ *   sessions/<id>/blobs/<sha256>       file contents
+ *
+ * Manifests written before this format listed absolute paths and stored
+ * each file under sessions/<id>/<basename>; those still restore. Manifests
+ * that name no template are goose-pond sessions from before there was a
+ * choice.
+ */
+
+import type { TranscriptEntry } from "./agent";
+import { DEFAULT_TEMPLATE, getTemplate } from "./templates";
+
+const MANIFEST_FORMAT = 2;
+
+export interface ManifestEntry {
+  /** Path relative to the project root. */
+  path: string;
+  sha256: string;
+  size: number;
+}
+
+export interface SessionManifest {
+  format: typeof MANIFEST_FORMAT;
+  files: ManifestEntry[];
+  version: number;
+  redo: number[];
+  transcript?: TranscriptEntry[];
+  /** The template the session was created from. */
+  template?: string;
+}
+
+interface LegacyManifest {
+  files: string[];
+  version?: number;
+  redo?: number[];
+  transcript?: TranscriptEntry[];
+}
+
+export function manifestKey(sessionId: string): string {
+  return `sessions/${sessionId}/manifest.json`;
+}
+
+function blobKey(sessionId: string, sha256: string): string {
+  return `sessions/${sessionId}/blobs/${sha256}`;
+}
+
+export async function saveSessionFiles(
+  bucket: R2Bucket,
+  sessionId: string,
+  files: Map<string, string>,
+  meta: {
+    template: string;
+    version: number;
+    redo: number[];
+    transcript: TranscriptEntry[];
+  },
+): Promise<void> {
+  const entries: ManifestEntry[] = [];
+
+  for (const [path, content] of files) {
+    const bytes = new TextEncoder().encode(content);
+    const sha256 = await sha256Hex(bytes);
+    // R2 verifies the checksum server-side and rejects a corrupted upload.
+    await bucket.put(blobKey(sessionId, sha256), bytes, { sha256 });
+    entries.push({ path, sha256, size: bytes.byteLength });
+  }
+
+  const manifest: SessionManifest = {
+    format: MANIFEST_FORMAT,
+    files: entries,
+    ...meta,
+  };
+  await bucket.put(manifestKey(sessionId), JSON.stringify(manifest));
+}
+
+/**
+ * Reads a manifest of either format and downloads its files, verifying each
+ * against its recorded size and hash. Returns paths relative to the project.
+ */
+export async function loadSessionFiles(
+  bucket: R2Bucket,
+  sessionId: string,
+  manifestObj: R2ObjectBody,
+): Promise<{
+  template: string;
+  files: Map<string, string>;
+  version: number;
+  redo: number[];
+  transcript: TranscriptEntry[];
+}> {
+  const manifest = (await manifestObj.json()) as
+    SessionManifest | LegacyManifest;
+  const files = new Map<string, string>();
+
+  if ("format" in manifest && manifest.format === MANIFEST_FORMAT) {
+    for (const entry of manifest.files) {
+      const obj = await bucket.get(blobKey(sessionId, entry.sha256));
+      if (!obj) {
+        throw new Error(`Missing R2 object for ${entry.path}`);
+      }
+      const bytes = new Uint8Array(await obj.arrayBuffer());
+      if (
+        bytes.byteLength !== entry.size ||
+        (await sha256Hex(bytes)) !== entry.sha256
+      ) {
+        throw new Error(`Checksum mismatch for ${entry.path}`);
+      }
+      files.set(entry.path, new TextDecoder().decode(bytes));
+    }
+  } else {
+    const projectDir = getTemplate(DEFAULT_TEMPLATE).dir;
+    for (const filePath of manifest.files as string[]) {
+      const fileName = filePath.split("/").pop()!;
+      const obj = await bucket.get(`sessions/${sessionId}/${fileName}`);
+      if (!obj) {
+        throw new Error(`Missing R2 object: sessions/${sessionId}/${fileName}`);
+      }
+      files.set(filePath.slice(projectDir.length + 1), await obj.text());
+    }
+  }
+
+  return {
+    template: ("template" in manifest && manifest.template) || DEFAULT_TEMPLATE,
+    files,
+    version: manifest.version ?? 0,
+    redo: manifest.redo ?? [],
+    transcript: manifest.transcript ?? [],
+  };
+}
+
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return [...new Uint8Array(digest)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
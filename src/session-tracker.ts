@@ -1,7 +1,41 @@
 import { DurableObject } from "cloudflare:workers";
+import type { GenerationUsage, QuotaExceeded, ServerMessage } from "./protocol";
 
-const MAX_CONCURRENT = 20;
-const LEASE_TTL_MS = 2 * 60 * 1000;
+export type GenerationOutcome = "done" | "failed" | "cancelled";
+
+export interface GenerationRecord extends GenerationUsage {
+  sessionId: string;
+  outcome: GenerationOutcome;
+  at: number;
+}
+
+/** Usage summed over a group of generations. */
+export interface UsageTotals {
+  generations: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  averageLatencyMs: number;
+}
+
+export interface LeaseInfo {
+  leaseId: string;
+  clientKey: string | null;
+  acquiredAt: number | null;
+  expiresAt: number;
+}
+
+const DEFAULT_MAX_CONCURRENT = 20;
+const DEFAULT_LEASE_TTL_MS = 2 * 60 * 1000;
+const MAX_WAITING = 200;
+// So no one client can fill the waiting room, even with no session quota.
+const MAX_WAITING_PER_CLIENT = 5;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const USAGE_RETENTION_MS = 90 * DAY_MS;
+// Starting guess for how long a session holds its lease, refined as they end.
+const DEFAULT_SESSION_MS = 10 * 60 * 1000;
 
 export class SessionTracker extends DurableObject<Env> {
   constructor(ctx: DurableObjectState, env: Env) {
@@ -10,41 +44,200 @@ export class SessionTracker extends DurableObject<Env> {
       this.ctx.storage.sql.exec(`
 				CREATE TABLE IF NOT EXISTS leases (
 					lease_id TEXT PRIMARY KEY,
-					expires_at INTEGER NOT NULL
+					expires_at INTEGER NOT NULL,
+					acquired_at INTEGER,
+					client_key TEXT
+				)
+			`);
+      // Trackers created before these columns existed.
+      for (const column of ["acquired_at INTEGER", "client_key TEXT"]) {
+        try {
+          this.ctx.storage.sql.exec(`ALTER TABLE leases ADD COLUMN ${column}`);
+        } catch {}
+      }
+      this.ctx.storage.sql.exec(`
+				CREATE TABLE IF NOT EXISTS waiting (
+					ticket INTEGER PRIMARY KEY AUTOINCREMENT,
+					session_id TEXT NOT NULL,
+					client_key TEXT,
+					enqueued_at INTEGER NOT NULL
+				)
+			`);
+      this.ctx.storage.sql.exec(`
+				CREATE TABLE IF NOT EXISTS usage (
+					id INTEGER PRIMARY KEY AUTOINCREMENT,
+					client_key TEXT NOT NULL,
+					kind TEXT NOT NULL,
+					amount INTEGER NOT NULL,
+					at INTEGER NOT NULL
+				)
+			`);
+      this.ctx.storage.sql.exec(
+        "CREATE INDEX IF NOT EXISTS usage_by_client ON usage (client_key, kind, at)",
+      );
+      this.ctx.storage.sql.exec(`
+				CREATE TABLE IF NOT EXISTS outcomes (
+					outcome TEXT PRIMARY KEY,
+					count INTEGER NOT NULL
+				)
+			`);
+      this.ctx.storage.sql.exec(`
+				CREATE TABLE IF NOT EXISTS generations (
+					id INTEGER PRIMARY KEY AUTOINCREMENT,
+					session_id TEXT NOT NULL,
+					outcome TEXT NOT NULL,
+					model TEXT NOT NULL,
+					input_tokens INTEGER NOT NULL,
+					output_tokens INTEGER NOT NULL,
+					total_tokens INTEGER NOT NULL,
+					latency_ms INTEGER NOT NULL,
+					cost_usd REAL,
+					at INTEGER NOT NULL
+				)
+			`);
+      this.ctx.storage.sql.exec(
+        "CREATE INDEX IF NOT EXISTS generations_by_session ON generations (session_id)",
+      );
+      this.ctx.storage.sql.exec(
+        "CREATE INDEX IF NOT EXISTS generations_by_time ON generations (at)",
+      );
+      this.ctx.storage.sql.exec(`
+				CREATE TABLE IF NOT EXISTS stats (
+					key TEXT PRIMARY KEY,
+					value REAL NOT NULL
 				)
 			`);
     });
   }
 
+  /**
+   * Takes a WebSocket that couldn't get a lease and holds it in a FIFO
+   * waiting room. The socket gets a `queued` message whenever its position
+   * changes, then `admitted` once a lease is reserved for its session, at
+   * which point the client reconnects to /ws/session with that session id.
+   */
+  override async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const sessionId = url.searchParams.get("sessionId")!;
+    const clientKey = url.searchParams.get("clientKey");
+    const [client, server] = Object.values(new WebSocketPair());
+
+    this.pruneWaiting();
+    const waiting = this.ctx.storage.sql
+      .exec<{ count: number }>("SELECT COUNT(*) as count FROM waiting")
+      .one().count;
+    const waitingForClient = clientKey
+      ? this.ctx.storage.sql
+          .exec<{
+            count: number;
+          }>(
+            "SELECT COUNT(*) as count FROM waiting WHERE client_key = ?",
+            clientKey,
+          )
+          .one().count
+      : 0;
+
+    // Waiting counts against the session quota, or the client could queue
+    // for more sessions than it may hold and be admitted to all of them.
+    const quota = clientKey && this.checkSessionQuota(clientKey);
+    if (quota) {
+      server.accept();
+      server.send(
+        JSON.stringify({
+          type: "quota_exceeded",
+          ...quota,
+        } satisfies ServerMessage),
+      );
+      server.close(4429, "Quota exceeded");
+      return new Response(null, { status: 101, webSocket: client });
+    }
+
+    if (waiting >= MAX_WAITING || waitingForClient >= MAX_WAITING_PER_CLIENT) {
+      server.accept();
+      server.send(
+        JSON.stringify({
+          type: "full",
+          active: this.countLeases(),
+        } satisfies ServerMessage),
+      );
+      server.close(4429, "At capacity");
+      return new Response(null, { status: 101, webSocket: client });
+    }
+
+    const { ticket } = this.ctx.storage.sql
+      .exec<{
+        ticket: number;
+      }>(
+        "INSERT INTO waiting (session_id, client_key, enqueued_at) VALUES (?, ?, ?) RETURNING ticket",
+        sessionId,
+        clientKey,
+        Date.now(),
+      )
+      .one();
+    this.ctx.acceptWebSocket(server, [String(ticket)]);
+    // A new session's owner token, passed on in `admitted`.
+    server.serializeAttachment({ token: url.searchParams.get("token") });
+
+    // A lease may have freed up since the caller's acquire failed.
+    this.promoteWaiting();
+    this.notifyWaiting();
+
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  /**
+   * Takes a lease for a session. Returns null when every slot is taken, or
+   * `quota` when the client already has as many sessions as it may.
+   */
   async acquire(
     leaseId: string,
-  ): Promise<{ leaseId: string; expiresAt: number } | null> {
+    clientKey?: string,
+  ): Promise<
+    { leaseId: string; expiresAt: number } | { quota: QuotaExceeded } | null
+  > {
     this.evictExpired();
 
-    const row = this.ctx.storage.sql
-      .exec<{ count: number }>("SELECT COUNT(*) as count FROM leases")
-      .one();
+    // Another device joining a live session reuses its lease.
+    const held = this.ctx.storage.sql
+      .exec("SELECT 1 FROM leases WHERE lease_id = ?", leaseId)
+      .toArray().length;
 
-    if (row.count >= MAX_CONCURRENT) return null;
+    if (!held) {
+      if (clientKey) {
+        const quota = this.checkSessionQuota(clientKey);
+        if (quota) return { quota };
+      }
 
-    const expiresAt = Date.now() + LEASE_TTL_MS;
-    this.ctx.storage.sql.exec(
-      "INSERT OR REPLACE INTO leases (lease_id, expires_at) VALUES (?, ?)",
-      leaseId,
-      expiresAt,
-    );
+      // Nobody jumps the waiting room, even if a slot is momentarily free.
+      this.pruneWaiting();
+      const waiting = this.ctx.storage.sql
+        .exec<{ count: number }>("SELECT COUNT(*) as count FROM waiting")
+        .one().count;
+      if (waiting > 0 || this.countLeases() >= this.maxConcurrent) return null;
+    }
 
+    const expiresAt = this.insertLease(leaseId, clientKey);
     this.scheduleNextAlarm();
     return { leaseId, expiresAt };
   }
 
   async release(leaseId: string): Promise<void> {
-    this.ctx.storage.sql.exec("DELETE FROM leases WHERE lease_id = ?", leaseId);
+    const rows = this.ctx.storage.sql
+      .exec<{
+        acquired_at: number | null;
+      }>("DELETE FROM leases WHERE lease_id = ? RETURNING acquired_at", leaseId)
+      .toArray();
+    for (const { acquired_at } of rows) {
+      if (acquired_at) this.recordSessionLength(Date.now() - acquired_at);
+    }
+
+    this.promoteWaiting();
+    this.notifyWaiting();
     this.scheduleNextAlarm();
   }
 
   async renew(leaseId: string): Promise<{ expiresAt: number } | null> {
-    const expiresAt = Date.now() + LEASE_TTL_MS;
+    const expiresAt = Date.now() + this.leaseTtlMs;
     const cursor = this.ctx.storage.sql.exec(
       "UPDATE leases SET expires_at = ? WHERE lease_id = ? RETURNING lease_id",
       expiresAt,
@@ -59,20 +252,443 @@ export class SessionTracker extends DurableObject<Env> {
 
   async getActive(): Promise<number> {
     this.evictExpired();
+    return this.countLeases();
+  }
+
+  async getWaiting(): Promise<number> {
+    this.pruneWaiting();
     return this.ctx.storage.sql
-      .exec<{ count: number }>("SELECT COUNT(*) as count FROM leases")
+      .exec<{ count: number }>("SELECT COUNT(*) as count FROM waiting")
       .one().count;
   }
 
+  /**
+   * Counts a generation against the client's hourly limit, unless it is
+   * already over that or its daily token budget.
+   */
+  async consumeGeneration(clientKey: string): Promise<QuotaExceeded | null> {
+    const now = Date.now();
+    this.ctx.storage.sql.exec("DELETE FROM usage WHERE at < ?", now - DAY_MS);
+
+    const generations = this.checkUsage(
+      clientKey,
+      "generations",
+      envNumber(this.env.CLIENT_GENERATIONS_PER_HOUR, 0),
+      HOUR_MS,
+    );
+    if (generations) return generations;
+
+    const tokens = this.checkUsage(
+      clientKey,
+      "tokens",
+      envNumber(this.env.CLIENT_TOKENS_PER_DAY, 0),
+      DAY_MS,
+    );
+    if (tokens) return tokens;
+
+    this.ctx.storage.sql.exec(
+      "INSERT INTO usage (client_key, kind, amount, at) VALUES (?, 'generations', 1, ?)",
+      clientKey,
+      now,
+    );
+    return null;
+  }
+
+  async recordTokens(clientKey: string, tokens: number): Promise<void> {
+    if (tokens <= 0) return;
+    this.ctx.storage.sql.exec(
+      "INSERT INTO usage (client_key, kind, amount, at) VALUES (?, 'tokens', ?, ?)",
+      clientKey,
+      tokens,
+      Date.now(),
+    );
+  }
+
+  async recordGeneration(
+    sessionId: string,
+    outcome: GenerationOutcome,
+    usage: GenerationUsage,
+  ): Promise<void> {
+    const now = Date.now();
+    this.ctx.storage.sql.exec(
+      `INSERT INTO outcomes (outcome, count) VALUES (?, 1)
+			 ON CONFLICT (outcome) DO UPDATE SET count = count + 1`,
+      outcome,
+    );
+    this.ctx.storage.sql.exec(
+      `INSERT INTO generations (session_id, outcome, model, input_tokens, output_tokens, total_tokens, latency_ms, cost_usd, at)
+			 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      sessionId,
+      outcome,
+      usage.model,
+      usage.inputTokens,
+      usage.outputTokens,
+      usage.totalTokens,
+      usage.latencyMs,
+      usage.costUsd,
+      now,
+    );
+    this.ctx.storage.sql.exec(
+      "DELETE FROM generations WHERE at < ?",
+      now - USAGE_RETENTION_MS,
+    );
+  }
+
+  async getSessionUsage(
+    sessionId: string,
+  ): Promise<{ generations: GenerationRecord[]; totals: UsageTotals }> {
+    const generations = this.ctx.storage.sql
+      .exec<{
+        session_id: string;
+        outcome: GenerationOutcome;
+        model: string;
+        input_tokens: number;
+        output_tokens: number;
+        total_tokens: number;
+        latency_ms: number;
+        cost_usd: number | null;
+        at: number;
+      }>(
+        "SELECT session_id, outcome, model, input_tokens, output_tokens, total_tokens, latency_ms, cost_usd, at FROM generations WHERE session_id = ? ORDER BY at",
+        sessionId,
+      )
+      .toArray()
+      .map((row) => ({
+        sessionId: row.session_id,
+        outcome: row.outcome,
+        model: row.model,
+        inputTokens: row.input_tokens,
+        outputTokens: row.output_tokens,
+        totalTokens: row.total_tokens,
+        latencyMs: row.latency_ms,
+        costUsd: row.cost_usd,
+        at: row.at,
+      }));
+
+    const totals = this.ctx.storage.sql
+      .exec<TotalsRow>(
+        `SELECT ${TOTALS_COLUMNS} FROM generations WHERE session_id = ?`,
+        sessionId,
+      )
+      .one();
+    return { generations, totals: usageTotals(totals) };
+  }
+
+  /** Totals per UTC day and model, most recent day first. */
+  async getDailyUsage(
+    days: number,
+  ): Promise<({ day: string; model: string } & UsageTotals)[]> {
+    return this.ctx.storage.sql
+      .exec<{ day: string; model: string } & TotalsRow>(
+        `SELECT date(at / 1000, 'unixepoch') as day, model, ${TOTALS_COLUMNS}
+				 FROM generations WHERE at >= ?
+				 GROUP BY day, model ORDER BY day DESC, model`,
+        Date.now() - days * DAY_MS,
+      )
+      .toArray()
+      .map(({ day, model, ...row }) => ({ day, model, ...usageTotals(row) }));
+  }
+
+  async listLeases(): Promise<LeaseInfo[]> {
+    this.evictExpired();
+    return this.ctx.storage.sql
+      .exec<{
+        lease_id: string;
+        client_key: string | null;
+        acquired_at: number | null;
+        expires_at: number;
+      }>(
+        "SELECT lease_id, client_key, acquired_at, expires_at FROM leases ORDER BY acquired_at",
+      )
+      .toArray()
+      .map((row) => ({
+        leaseId: row.lease_id,
+        clientKey: row.client_key,
+        acquiredAt: row.acquired_at,
+        expiresAt: row.expires_at,
+      }));
+  }
+
+  async getStats(): Promise<{
+    active: number;
+    waiting: number;
+    maxConcurrent: number;
+    generations: Record<GenerationOutcome, number>;
+  }> {
+    const generations: Record<GenerationOutcome, number> = {
+      done: 0,
+      failed: 0,
+      cancelled: 0,
+    };
+    for (const row of this.ctx.storage.sql
+      .exec<{
+        outcome: GenerationOutcome;
+        count: number;
+      }>("SELECT outcome, count FROM outcomes")
+      .toArray()) {
+      generations[row.outcome] = row.count;
+    }
+
+    return {
+      active: await this.getActive(),
+      waiting: await this.getWaiting(),
+      maxConcurrent: this.maxConcurrent,
+      generations,
+    };
+  }
+
   async alarm(): Promise<void> {
     this.evictExpired();
     this.scheduleNextAlarm();
   }
 
+  async webSocketClose(ws: WebSocket): Promise<void> {
+    this.leaveWaiting(ws);
+  }
+
+  async webSocketError(ws: WebSocket): Promise<void> {
+    this.leaveWaiting(ws);
+  }
+
+  private leaveWaiting(ws: WebSocket): void {
+    for (const ticket of this.ctx.getTags(ws)) {
+      this.ctx.storage.sql.exec(
+        "DELETE FROM waiting WHERE ticket = ?",
+        Number(ticket),
+      );
+    }
+    this.notifyWaiting(ws);
+  }
+
+  private get maxConcurrent(): number {
+    return envNumber(this.env.MAX_CONCURRENT, DEFAULT_MAX_CONCURRENT);
+  }
+
+  private get leaseTtlMs(): number {
+    return envNumber(this.env.LEASE_TTL_MS, DEFAULT_LEASE_TTL_MS);
+  }
+
+  /** Counts the client's leases and its tickets in the waiting room. */
+  private checkSessionQuota(clientKey: string): QuotaExceeded | null {
+    const limit = envNumber(this.env.CLIENT_MAX_SESSIONS, 0);
+    if (limit === 0) return null;
+
+    const row = this.ctx.storage.sql
+      .exec<{
+        used: number;
+        next: number | null;
+      }>(
+        `SELECT
+				   (SELECT COUNT(*) FROM leases WHERE client_key = ?)
+				   + (SELECT COUNT(*) FROM waiting WHERE client_key = ?) as used,
+				   (SELECT MIN(expires_at) FROM leases WHERE client_key = ?) as next`,
+        clientKey,
+        clientKey,
+        clientKey,
+      )
+      .one();
+    if (row.used < limit) return null;
+    // Sessions have no fixed end; the soonest lease expiry is the earliest
+    // a slot could open up.
+    return {
+      quota: "sessions",
+      limit,
+      used: row.used,
+      resetAt: row.next ?? Date.now(),
+    };
+  }
+
+  /** Sliding-window check of one kind of usage. A limit of 0 means none. */
+  private checkUsage(
+    clientKey: string,
+    kind: "generations" | "tokens",
+    limit: number,
+    windowMs: number,
+  ): QuotaExceeded | null {
+    if (limit === 0) return null;
+
+    const since = Date.now() - windowMs;
+    const row = this.ctx.storage.sql
+      .exec<{
+        used: number | null;
+        oldest: number | null;
+      }>(
+        "SELECT SUM(amount) as used, MIN(at) as oldest FROM usage WHERE client_key = ? AND kind = ? AND at >= ?",
+        clientKey,
+        kind,
+        since,
+      )
+      .one();
+    const used = row.used ?? 0;
+    if (used < limit) return null;
+    return {
+      quota: kind,
+      limit,
+      used,
+      resetAt: (row.oldest ?? Date.now()) + windowMs,
+    };
+  }
+
+  private insertLease(leaseId: string, clientKey?: string | null): number {
+    const now = Date.now();
+    const expiresAt = now + this.leaseTtlMs;
+    this.ctx.storage.sql.exec(
+      `INSERT INTO leases (lease_id, expires_at, acquired_at, client_key) VALUES (?, ?, ?, ?)
+			 ON CONFLICT (lease_id) DO UPDATE SET expires_at = excluded.expires_at`,
+      leaseId,
+      expiresAt,
+      now,
+      clientKey ?? null,
+    );
+    return expiresAt;
+  }
+
+  private countLeases(): number {
+    return this.ctx.storage.sql
+      .exec<{ count: number }>("SELECT COUNT(*) as count FROM leases")
+      .one().count;
+  }
+
   private evictExpired(): void {
+    const evicted = this.ctx.storage.sql
+      .exec<{
+        acquired_at: number | null;
+        expires_at: number;
+      }>(
+        "DELETE FROM leases WHERE expires_at < ? RETURNING acquired_at, expires_at",
+        Date.now(),
+      )
+      .toArray();
+    if (evicted.length === 0) return;
+
+    for (const { acquired_at, expires_at } of evicted) {
+      if (acquired_at) {
+        this.recordSessionLength(expires_at - this.leaseTtlMs - acquired_at);
+      }
+    }
+    this.promoteWaiting();
+    this.notifyWaiting();
+  }
+
+  /** Hands free slots to the longest-waiting sockets. */
+  private promoteWaiting(): void {
+    this.pruneWaiting();
+
+    while (this.countLeases() < this.maxConcurrent) {
+      const next = this.ctx.storage.sql
+        .exec<{
+          ticket: number;
+          session_id: string;
+          client_key: string | null;
+        }>(
+          "SELECT ticket, session_id, client_key FROM waiting ORDER BY ticket LIMIT 1",
+        )
+        .toArray()[0];
+      if (!next) break;
+
+      this.ctx.storage.sql.exec(
+        "DELETE FROM waiting WHERE ticket = ?",
+        next.ticket,
+      );
+
+      // The client may have taken other sessions while it waited.
+      const quota = next.client_key && this.checkSessionQuota(next.client_key);
+      if (quota) {
+        for (const ws of this.ctx.getWebSockets(String(next.ticket))) {
+          try {
+            ws.send(
+              JSON.stringify({
+                type: "quota_exceeded",
+                ...quota,
+              } satisfies ServerMessage),
+            );
+            ws.close(4429, "Quota exceeded");
+          } catch {}
+        }
+        continue;
+      }
+
+      // The lease is reserved until the client reconnects and its sandbox
+      // starts renewing it; if it never does, the lease simply expires.
+      this.insertLease(next.session_id, next.client_key);
+
+      for (const ws of this.ctx.getWebSockets(String(next.ticket))) {
+        try {
+          const { token } = ws.deserializeAttachment() as {
+            token: string | null;
+          };
+          ws.send(
+            JSON.stringify({
+              type: "admitted",
+              sessionId: next.session_id,
+              ...(token && { token }),
+            } satisfies ServerMessage),
+          );
+          ws.close(1000, "Admitted");
+        } catch {}
+      }
+    }
+    this.scheduleNextAlarm();
+  }
+
+  /** Sends every waiting socket its current position. */
+  private notifyWaiting(exclude?: WebSocket): void {
+    const tickets = this.ctx.storage.sql
+      .exec<{ ticket: number }>("SELECT ticket FROM waiting ORDER BY ticket")
+      .toArray();
+    const sessionMs = this.averageSessionMs();
+
+    tickets.forEach(({ ticket }, i) => {
+      const position = i + 1;
+      const msg = JSON.stringify({
+        type: "queued",
+        position,
+        // Slots free up at roughly maxConcurrent per average session.
+        estimatedWaitMs: Math.round(
+          (position * sessionMs) / this.maxConcurrent,
+        ),
+      } satisfies ServerMessage);
+
+      for (const ws of this.ctx.getWebSockets(String(ticket))) {
+        if (ws === exclude) continue;
+        try {
+          ws.send(msg);
+        } catch {}
+      }
+    });
+  }
+
+  /** Drops entries whose socket is gone without a close event reaching us. */
+  private pruneWaiting(): void {
+    const tickets = this.ctx.storage.sql
+      .exec<{ ticket: number }>("SELECT ticket FROM waiting")
+      .toArray();
+    for (const { ticket } of tickets) {
+      if (this.ctx.getWebSockets(String(ticket)).length === 0) {
+        this.ctx.storage.sql.exec(
+          "DELETE FROM waiting WHERE ticket = ?",
+          ticket,
+        );
+      }
+    }
+  }
+
+  private averageSessionMs(): number {
+    const row = this.ctx.storage.sql
+      .exec<{
+        value: number;
+      }>("SELECT value FROM stats WHERE key = 'session_ms'")
+      .toArray()[0];
+    return row?.value ?? DEFAULT_SESSION_MS;
+  }
+
+  private recordSessionLength(ms: number): void {
+    if (ms <= 0) return;
+    // Exponential moving average, so the estimate tracks recent usage.
+    const average = this.averageSessionMs() * 0.8 + ms * 0.2;
     this.ctx.storage.sql.exec(
-      "DELETE FROM leases WHERE expires_at < ?",
-      Date.now(),
+      "INSERT OR REPLACE INTO stats (key, value) VALUES ('session_ms', ?)",
+      average,
     );
   }
 
@@ -88,3 +704,34 @@ export class SessionTracker extends DurableObject<Env> {
     }
   }
 }
+
+const TOTALS_COLUMNS = `COUNT(*) as generations,
+	SUM(input_tokens) as input_tokens, SUM(output_tokens) as output_tokens,
+	SUM(total_tokens) as total_tokens, SUM(cost_usd) as cost_usd,
+	AVG(latency_ms) as latency_ms`;
+
+type TotalsRow = {
+  generations: number;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  total_tokens: number | null;
+  cost_usd: number | null;
+  latency_ms: number | null;
+};
+
+function usageTotals(row: TotalsRow): UsageTotals {
+  return {
+    generations: row.generations,
+    inputTokens: row.input_tokens ?? 0,
+    outputTokens: row.output_tokens ?? 0,
+    totalTokens: row.total_tokens ?? 0,
+    costUsd: row.cost_usd ?? 0,
+    averageLatencyMs: Math.round(row.latency_ms ?? 0),
+  };
+}
+
+/** Reads a numeric var, which arrives as a string when set in .dev.vars. */
+export function envNumber(value: unknown, fallback: number): number {
+  const n = Number(value);
+  return value !== undefined && Number.isFinite(n) && n >= 0 ? n : fallback;
+}
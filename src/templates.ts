@@ -0,0 +1,98 @@
+/**
+ * Starter apps a session can be built on. Each is a Vite project the
+ * Dockerfile clones from `repo` into the image at `dir`, with its
+ * dependencies installed and `port` exposed; keep its per-template blocks
+ * in step with this registry. A session picks a template when it is created
+ * and keeps it, and its manifest records which one so a restore lands in
+ * the same project.
+ *
+ * Globs are relative to `dir`: `*` matches within a path segment, `**`
+ * across segments.
+ */
+
+export interface Template {
+  id: string;
+  name: string;
+  /** Git URL the Dockerfile clones. */
+  repo: string;
+  /** Absolute path of the project inside the container. */
+  dir: string;
+  /** Starts Vite; the editor appends `--config` for its error reporter. */
+  devCommand: string;
+  port: number;
+  /** Type-checks a copy of the project; run before changes are applied. */
+  checkCommand: string;
+  /** Files the agent may create or change. */
+  editable: string[];
+  /** Files the agent may read but never write; these win over `editable`. */
+  readOnly: string[];
+  /** Describes the app to the agent, ahead of the user's request. */
+  systemPrompt: string;
+  /** Rules for the agent about the app's language and framework. */
+  rules: string[];
+}
+
+export const DEFAULT_TEMPLATE = "goose-pond";
+
+const TEMPLATES: Record<string, Template> = {
+  "goose-pond": {
+    id: "goose-pond",
+    name: "Goose pond",
+    repo: "https://github.com/ghostwriternr/goose-pond.git",
+    dir: "/home/user/goose-pond",
+    devCommand: "npx vite --host",
+    port: 5173,
+    checkCommand: "npx tsc -b --force --pretty false",
+    editable: ["**"],
+    readOnly: ["src/PixelGoose.tsx", "src/index.css"],
+    systemPrompt: `You are modifying a React + Vite app. The app renders a pixel art goose on a pond background. Once your changes are applied, Vite hot-reloads them for the user.
+
+Read src/App.tsx, the main component, first. The PixelGoose component accepts these props: size, direction ("left" | "right"), className, style.`,
+    rules: [
+      "All code must be valid TypeScript JSX that compiles without errors.",
+      "Import React hooks if you use them.",
+      "Put new components under src/components/.",
+    ],
+  },
+};
+
+export function isTemplateId(id: string): boolean {
+  return Object.hasOwn(TEMPLATES, id);
+}
+
+/** The template with `id`, or the default for sessions that predate templates. */
+export function getTemplate(id: string = DEFAULT_TEMPLATE): Template {
+  if (!isTemplateId(id)) throw new Error(`Unknown template: ${id}`);
+  return TEMPLATES[id];
+}
+
+export function listTemplates(): Template[] {
+  return Object.values(TEMPLATES);
+}
+
+/** Whether `path`, relative to the project root, matches any of `globs`. */
+export function matchesGlob(path: string, globs: string[]): boolean {
+  return globs.some((glob) => globToRegExp(glob).test(path));
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      i++;
+      // "**/" may also match no directories at all.
+      if (glob[i + 1] === "/") {
+        i++;
+        source += "(?:.*/)?";
+      } else {
+        source += ".*";
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else {
+      source += char.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,119 @@
+const RETAINED_EPOCHS = 20;
+
+export type SpanOutcome = "ok" | "error" | "aborted";
+
+export interface SpanRecord {
+  name: string;
+  detail?: string;
+  start: number;
+  end: number;
+  /** Tries it took under #withContainerRetry; 1 when it didn't retry. */
+  attempts: number;
+  outcome: SpanOutcome;
+  error?: string;
+}
+
+/**
+ * Timed steps of each generation and restore, kept per epoch in the Durable
+ * Object's SQLite so slow cold starts and restores can be broken down after
+ * the fact. Only the last RETAINED_EPOCHS epochs are kept.
+ */
+export class Timeline {
+  constructor(private readonly sql: SqlStorage) {
+    sql.exec(`
+			CREATE TABLE IF NOT EXISTS spans (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				epoch INTEGER NOT NULL,
+				name TEXT NOT NULL,
+				detail TEXT,
+				started_at INTEGER NOT NULL,
+				ended_at INTEGER NOT NULL,
+				attempts INTEGER NOT NULL,
+				outcome TEXT NOT NULL,
+				error TEXT
+			)
+		`);
+  }
+
+  start(epoch: number, name: string, detail?: string): Span {
+    return new Span(this, epoch, name, detail);
+  }
+
+  record(epoch: number, span: SpanRecord): void {
+    this.sql.exec(
+      "INSERT INTO spans (epoch, name, detail, started_at, ended_at, attempts, outcome, error) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+      epoch,
+      span.name,
+      span.detail ?? null,
+      span.start,
+      span.end,
+      span.attempts,
+      span.outcome,
+      span.error ?? null,
+    );
+    this.sql.exec(
+      "DELETE FROM spans WHERE epoch <= ?",
+      epoch - RETAINED_EPOCHS,
+    );
+  }
+
+  /** Every retained epoch's spans, oldest epoch first, in start order. */
+  epochs(): { epoch: number; spans: SpanRecord[] }[] {
+    const byEpoch = new Map<number, SpanRecord[]>();
+    const rows = this.sql
+      .exec<{
+        epoch: number;
+        name: string;
+        detail: string | null;
+        started_at: number;
+        ended_at: number;
+        attempts: number;
+        outcome: SpanOutcome;
+        error: string | null;
+      }>(
+        "SELECT epoch, name, detail, started_at, ended_at, attempts, outcome, error FROM spans ORDER BY epoch, started_at, id",
+      )
+      .toArray();
+
+    for (const row of rows) {
+      let spans = byEpoch.get(row.epoch);
+      if (!spans) byEpoch.set(row.epoch, (spans = []));
+      const { detail, error } = row;
+      spans.push({
+        name: row.name,
+        start: row.started_at,
+        end: row.ended_at,
+        attempts: row.attempts,
+        outcome: row.outcome,
+        ...(detail !== null && { detail }),
+        ...(error !== null && { error }),
+      });
+    }
+    return [...byEpoch].map(([epoch, spans]) => ({ epoch, spans }));
+  }
+}
+
+/** A step in progress. It is only written once it ends. */
+export class Span {
+  attempts = 1;
+  private readonly startedAt = Date.now();
+
+  constructor(
+    private readonly timeline: Timeline,
+    private readonly epoch: number,
+    private readonly name: string,
+    private readonly detail?: string,
+  ) {}
+
+  end(outcome: SpanOutcome, error?: unknown): void {
+    this.timeline.record(this.epoch, {
+      name: this.name,
+      detail: this.detail,
+      start: this.startedAt,
+      end: Date.now(),
+      attempts: this.attempts,
+      outcome,
+      ...(error !== undefined && { error: String(error) }),
+    });
+  }
+}
@@ -0,0 +1,40 @@
+import type { GenerationUsage, TokenUsage } from "./protocol";
+
+/**
+ * Gateway list prices in USD per million tokens, for estimating spend.
+ * Models missing here are still metered; their cost is just unknown.
+ */
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  "google-ai-studio/gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "google-ai-studio/gemini-2.5-pro": { input: 1.25, output: 10 },
+  "anthropic/claude-sonnet-4-5": { input: 3, output: 15 },
+  "openai/gpt-5-mini": { input: 0.25, output: 2 },
+};
+
+export function emptyTokenUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+}
+
+export function addTokenUsage(total: TokenUsage, turn: TokenUsage): void {
+  total.inputTokens += turn.inputTokens;
+  total.outputTokens += turn.outputTokens;
+  total.totalTokens += turn.totalTokens;
+}
+
+export function generationUsage(
+  model: string,
+  tokens: TokenUsage,
+  startedAt: number,
+): GenerationUsage {
+  const price = MODEL_PRICES[model];
+  return {
+    model,
+    ...tokens,
+    latencyMs: Date.now() - startedAt,
+    costUsd: price
+      ? (tokens.inputTokens * price.input +
+          tokens.outputTokens * price.output) /
+        1_000_000
+      : null,
+  };
+}
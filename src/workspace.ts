@@ -0,0 +1,269 @@
+import type { Template } from "./templates";
+
+export const MAX_REPAIR_ROUNDS = 3;
+
+const CHECK_TIMEOUT_MS = 120_000;
+const MAX_DIAGNOSTICS_LENGTH = 8_000;
+
+/** Scratch space for a template's compile checks or diffs. */
+function scratchDir(template: Template, purpose: "check" | "diff"): string {
+  return `/tmp/${template.id}-${purpose}`;
+}
+
+/** The subset of the Sandbox API used to read and write project files. */
+export interface ProjectFs {
+  readFile(path: string): Promise<{ content: string }>;
+  writeFile(path: string, content: string): Promise<unknown>;
+  deleteFile(path: string): Promise<unknown>;
+  mkdir(path: string, options?: { recursive?: boolean }): Promise<unknown>;
+  exists(path: string): Promise<{ exists: boolean }>;
+  exec(
+    command: string,
+    options?: { cwd?: string; timeout?: number; signal?: AbortSignal },
+  ): Promise<{ stdout: string; stderr: string; exitCode: number }>;
+}
+
+export class CompileError extends Error {
+  constructor(readonly diagnostics: string) {
+    super("Generated code failed to compile");
+    this.name = "CompileError";
+  }
+}
+
+/**
+ * Agent writes, held in memory until they pass the compile check. Reads see
+ * staged contents first so the agent can build on its own edits.
+ */
+export class StagedChanges {
+  #files = new Map<string, string>();
+
+  constructor(private readonly fs: ProjectFs) {}
+
+  get size(): number {
+    return this.#files.size;
+  }
+
+  paths(): string[] {
+    return [...this.#files.keys()];
+  }
+
+  entries(): [string, string][] {
+    return [...this.#files.entries()];
+  }
+
+  async read(path: string): Promise<string> {
+    const staged = this.#files.get(path);
+    if (staged !== undefined) return staged;
+    return (await this.fs.readFile(path)).content;
+  }
+
+  write(path: string, content: string): void {
+    this.#files.set(path, content);
+  }
+}
+
+/**
+ * Copies the project (minus node_modules) to a scratch directory, overlays
+ * the staged files and type-checks the result, leaving the live project and
+ * the running Vite server untouched.
+ */
+export async function checkStagedChanges(
+  fs: ProjectFs,
+  template: Template,
+  staged: StagedChanges,
+  signal?: AbortSignal,
+  variant?: number,
+): Promise<{ ok: boolean; diagnostics: string }> {
+  const projectDir = template.dir;
+  // Variants are checked side by side, each in a directory of its own.
+  const base = scratchDir(template, "check");
+  const checkDir = variant === undefined ? base : `${base}-${variant}`;
+  const copy = await fs.exec(
+    [
+      `rm -rf ${checkDir}`,
+      `mkdir -p ${checkDir}`,
+      `tar -C ${projectDir} --exclude=./node_modules --exclude=./.git --exclude=./dist -cf - . | tar -C ${checkDir} -xf -`,
+      `ln -s ${projectDir}/node_modules ${checkDir}/node_modules`,
+    ].join(" && "),
+  );
+  if (copy.exitCode !== 0) {
+    throw new Error(`Failed to prepare compile check: ${copy.stderr}`);
+  }
+
+  for (const [path, content] of staged.entries()) {
+    const target = checkDir + path.slice(projectDir.length);
+    await fs.mkdir(target.slice(0, target.lastIndexOf("/")), {
+      recursive: true,
+    });
+    await fs.writeFile(target, content);
+  }
+
+  const result = await fs.exec(template.checkCommand, {
+    cwd: checkDir,
+    timeout: CHECK_TIMEOUT_MS,
+    signal,
+  });
+  const diagnostics = `${result.stdout}\n${result.stderr}`
+    .trim()
+    .replaceAll(checkDir, projectDir)
+    .slice(0, MAX_DIAGNOSTICS_LENGTH);
+
+  return { ok: result.exitCode === 0, diagnostics };
+}
+
+/**
+ * Writes staged files into the live project. If any write fails or `signal`
+ * aborts part-way, files that were already written are restored to their
+ * previous contents.
+ */
+export async function applyStagedChanges(
+  fs: ProjectFs,
+  staged: StagedChanges,
+  signal?: AbortSignal,
+): Promise<void> {
+  const originals = new Map<string, string | null>();
+
+  try {
+    for (const [path, content] of staged.entries()) {
+      signal?.throwIfAborted();
+      originals.set(path, await readIfExists(fs, path));
+      await fs.mkdir(path.slice(0, path.lastIndexOf("/")), {
+        recursive: true,
+      });
+      await fs.writeFile(path, content);
+    }
+  } catch (err) {
+    for (const [path, original] of originals) {
+      try {
+        if (original === null) {
+          await fs.deleteFile(path);
+        } else {
+          await fs.writeFile(path, original);
+        }
+      } catch {}
+    }
+    throw err;
+  }
+}
+
+/**
+ * Sets each file to the given contents, deleting those mapped to null. Used
+ * to swap candidate variants in and out of the live project.
+ */
+export async function writeOverlay(
+  fs: ProjectFs,
+  files: Map<string, string | null>,
+): Promise<void> {
+  for (const [path, content] of files) {
+    if (content === null) {
+      if ((await fs.exists(path)).exists) await fs.deleteFile(path);
+      continue;
+    }
+    await fs.mkdir(path.slice(0, path.lastIndexOf("/")), { recursive: true });
+    await fs.writeFile(path, content);
+  }
+}
+
+export async function readIfExists(
+  fs: ProjectFs,
+  path: string,
+): Promise<string | null> {
+  const { exists } = await fs.exists(path);
+  if (!exists) return null;
+  return (await fs.readFile(path)).content;
+}
+
+/**
+ * Restores files to their pristine template contents: tracked files are
+ * checked out from the template's git HEAD, files the agent created are
+ * deleted.
+ */
+export async function resetToBaseline(
+  fs: ProjectFs,
+  projectDir: string,
+  paths: string[],
+): Promise<void> {
+  for (const path of paths) {
+    const relative = shellQuote(path.slice(projectDir.length + 1));
+    const tracked = await fs.exec(
+      `git ls-files --error-unmatch -- ${relative}`,
+      { cwd: projectDir },
+    );
+    if (tracked.exitCode === 0) {
+      const checkout = await fs.exec(`git checkout HEAD -- ${relative}`, {
+        cwd: projectDir,
+      });
+      if (checkout.exitCode !== 0) {
+        throw new Error(`Failed to reset ${path}: ${checkout.stderr}`);
+      }
+    } else if ((await fs.exists(path)).exists) {
+      await fs.deleteFile(path);
+    }
+  }
+}
+
+/**
+ * Produces a unified diff between two states of the project. Each side is
+ * the pristine template with the given snapshot (relative path → contents)
+ * laid over it, so an empty map on either side means "the original app".
+ */
+export async function diffSnapshots(
+  fs: ProjectFs,
+  template: Template,
+  before: Map<string, string>,
+  after: Map<string, string>,
+): Promise<string> {
+  const projectDir = template.dir;
+  const diffDir = scratchDir(template, "diff");
+  const paths = [...new Set([...before.keys(), ...after.keys()])];
+  if (paths.length === 0) return "";
+
+  const tracked = await fs.exec(
+    `git ls-files -- ${paths.map(shellQuote).join(" ")}`,
+    { cwd: projectDir },
+  );
+  const baseline = tracked.stdout.split("\n").filter(Boolean);
+
+  const steps = [`rm -rf ${diffDir}`, `mkdir -p ${diffDir}/a ${diffDir}/b`];
+  if (baseline.length > 0) {
+    const archive = `git archive HEAD -- ${baseline.map(shellQuote).join(" ")}`;
+    steps.push(
+      `${archive} | tar -x -C ${diffDir}/a`,
+      `${archive} | tar -x -C ${diffDir}/b`,
+    );
+  }
+  const prepare = await fs.exec(steps.join(" && "), { cwd: projectDir });
+  if (prepare.exitCode !== 0) {
+    throw new Error(`Failed to prepare diff: ${prepare.stderr}`);
+  }
+
+  for (const [side, files] of [
+    ["a", before],
+    ["b", after],
+  ] as const) {
+    for (const [path, content] of files) {
+      const target = `${diffDir}/${side}/${path}`;
+      await fs.mkdir(target.slice(0, target.lastIndexOf("/")), {
+        recursive: true,
+      });
+      await fs.writeFile(target, content);
+    }
+  }
+
+  // The trees live in directories named a/ and b/, so --no-prefix yields the
+  // usual a/<path> b/<path> headers that `git apply` and `patch -p1` expect.
+  const result = await fs.exec(
+    "git diff --no-index --no-color --no-prefix a b",
+    {
+      cwd: diffDir,
+    },
+  );
+  if (result.exitCode > 1) {
+    throw new Error(`git diff failed: ${result.stderr}`);
+  }
+  return result.stdout;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replaceAll("'", `'\\''`)}'`;
+}
@@ -8,7 +8,21 @@ declare namespace Cloudflare {
 	}
 	interface Env {
 		DIFFS: R2Bucket;
+		AI_GATEWAY_ACCOUNT_ID: "8acffcc765d5baa91c873d1459ba1a19";
+		AI_GATEWAY_NAME: "dev-envs-for-agents";
+		DEFAULT_MODEL: "google-ai-studio/gemini-2.5-flash";
+		ALLOWED_MODELS: ["google-ai-studio/gemini-2.5-flash","google-ai-studio/gemini-2.5-pro","anthropic/claude-sonnet-4-5","openai/gpt-5-mini"];
+		MAX_CONCURRENT: 20;
+		LEASE_TTL_MS: 120000;
+		CLIENT_MAX_SESSIONS: 2;
+		CLIENT_GENERATIONS_PER_HOUR: 30;
+		CLIENT_TOKENS_PER_DAY: 2000000;
+		RUNTIME_FIX_ATTEMPTS: 0;
+		VISUAL_CHECK: 0;
 		CF_AIG_TOKEN: string;
+		SESSION_SECRET: string;
+		ADMIN_TOKEN: string;
+		API_KEYS: string;
 		Sandbox: DurableObjectNamespace<import("./src/index").Sandbox>;
 		SessionTracker: DurableObjectNamespace<import("./src/index").SessionTracker>;
 	}
@@ -18,7 +32,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "CF_AIG_TOKEN">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "AI_GATEWAY_ACCOUNT_ID" | "AI_GATEWAY_NAME" | "DEFAULT_MODEL" | "ALLOWED_MODELS" | "MAX_CONCURRENT" | "LEASE_TTL_MS" | "CLIENT_MAX_SESSIONS" | "CLIENT_GENERATIONS_PER_HOUR" | "CLIENT_TOKENS_PER_DAY" | "RUNTIME_FIX_ATTEMPTS" | "VISUAL_CHECK" | "CF_AIG_TOKEN" | "SESSION_SECRET" | "ADMIN_TOKEN" | "API_KEYS">> {}
 }
 
 // Begin runtime types